@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findBookingByReference } from "@/lib/booking-store";
+import { buildBookingCalendar } from "@/lib/calendar";
+
+/**
+ * GET /api/bookings/:reference/calendar.ics
+ *
+ * The booking's delivery and collection as an iCalendar feed. Calendar apps
+ * can subscribe to this URL to follow changes to the booking, or it can be
+ * downloaded once as a file. Responds 404 for an unknown booking.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ reference: string }> },
+) {
+  const { reference } = await params;
+  const booking = await findBookingByReference(reference);
+  if (!booking) {
+    return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+  }
+
+  return new NextResponse(buildBookingCalendar(booking), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="skip-hire-${booking.reference}.ics"`,
+      // Always current, so subscriptions pick up payment status changes
+      "Cache-Control": "no-store",
+    },
+  });
+}
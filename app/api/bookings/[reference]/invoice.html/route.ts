@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findBookingByReference } from "@/lib/booking-store";
+import { buildInvoice, renderInvoiceHtml } from "@/lib/invoice";
+
+/**
+ * GET /api/bookings/:reference/invoice.html
+ *
+ * The booking's VAT invoice as a printable HTML page. Responds 404 for an
+ * unknown booking and 409 until it has been paid for.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ reference: string }> },
+) {
+  const { reference } = await params;
+  const booking = await findBookingByReference(reference);
+  if (!booking) {
+    return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+  }
+  const invoice = buildInvoice(booking);
+  if (!invoice) {
+    return NextResponse.json(
+      { error: "This booking hasn't been paid for yet" },
+      { status: 409 },
+    );
+  }
+
+  return new NextResponse(renderInvoiceHtml(invoice), {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findBookingByReference } from "@/lib/booking-store";
+import { buildInvoice, renderInvoicePdf } from "@/lib/invoice";
+
+/**
+ * GET /api/bookings/:reference/invoice.pdf
+ *
+ * The booking's VAT invoice as a PDF download, named after the invoice
+ * number. Responds 404 for an unknown booking and 409 until it has been
+ * paid for.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ reference: string }> },
+) {
+  const { reference } = await params;
+  const booking = await findBookingByReference(reference);
+  if (!booking) {
+    return NextResponse.json({ error: "Booking not found" }, { status: 404 });
+  }
+  const invoice = buildInvoice(booking);
+  if (!invoice) {
+    return NextResponse.json(
+      { error: "This booking hasn't been paid for yet" },
+      { status: 409 },
+    );
+  }
+
+  return new NextResponse(new Uint8Array(renderInvoicePdf(invoice)), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${invoice.number}.pdf"`,
+    },
+  });
+}
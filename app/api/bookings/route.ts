@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  IdempotencyConflictError,
+  findBookingByIdempotencyKey,
+  recordBooking,
+} from "@/lib/booking-store";
+import {
+  BookingSubmissionError,
+  hashBookingSubmission,
+  parseBookingSubmission,
+  prepareBooking,
+} from "@/lib/booking-submission";
+import { UpstreamSkipError } from "@/lib/skip-upstream";
+
+// Longest Idempotency-Key accepted (a UUID is 36 characters)
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+/**
+ * POST /api/bookings
+ *
+ * Body: the booking draft with the chosen skipId, plus expectedTotal - the
+ * total in pence the customer was shown.
+ *
+ * The price is worked out again from the catalogue; the submitted total is
+ * only checked against it. Send an Idempotency-Key header to make retries
+ * safe: repeating a request with the same key returns the original booking
+ * rather than booking again, even if the price or availability has changed
+ * or the supplier is down by then.
+ *
+ * Responds 201 with the new Booking (200 for a repeated request), 400 with
+ * per-field errors, 404 when the postcode isn't served, 409 when the skip is
+ * no longer offered, the price has changed (with the current total) or the
+ * key was used for a different booking, and 502 when the supplier is down.
+ */
+export async function POST(request: NextRequest) {
+  const submission = parseBookingSubmission(
+    await request.json().catch(() => null),
+  );
+  if (!submission) {
+    return NextResponse.json(
+      { error: "The booking request was empty" },
+      { status: 400 },
+    );
+  }
+
+  const idempotencyKey = request.headers.get("idempotency-key")?.trim() || null;
+  if (idempotencyKey && idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return NextResponse.json(
+      { error: "The Idempotency-Key header is too long" },
+      { status: 400 },
+    );
+  }
+
+  const requestHash = hashBookingSubmission(submission);
+  try {
+    // A retry gets its booking back before anything is priced again
+    if (idempotencyKey) {
+      const existing = await findBookingByIdempotencyKey(
+        idempotencyKey,
+        requestHash,
+      );
+      if (existing) return NextResponse.json(existing, { status: 200 });
+    }
+
+    const details = await prepareBooking(submission);
+    const { booking, created } = await recordBooking(
+      details,
+      idempotencyKey,
+      requestHash,
+    );
+    return NextResponse.json(booking, { status: created ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof BookingSubmissionError) {
+      return NextResponse.json(
+        { error: error.message, errors: error.errors, total: error.total },
+        { status: error.status },
+      );
+    }
+    if (error instanceof IdempotencyConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof UpstreamSkipError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+}
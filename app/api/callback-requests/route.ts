@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordCallbackRequest } from "@/lib/callback-store";
+import { normaliseUkPhone } from "@/lib/phone";
+import { parseOutwardCode } from "@/lib/postcode";
+
+/**
+ * POST /api/callback-requests
+ *
+ * Body: { name, phone, postcode, skipId, skipSize }
+ *
+ * Records a request for the sales team to call a customer about a skip size
+ * that isn't bookable online in their area. Responds 201 with the stored
+ * request, or 400 with per-field errors.
+ */
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const phone =
+    typeof body?.phone === "string" ? normaliseUkPhone(body.phone) : null;
+  const district =
+    typeof body?.postcode === "string" ? parseOutwardCode(body.postcode) : null;
+  const { skipId, skipSize } = body ?? {};
+
+  const errors: Record<string, string> = {};
+  if (!name) errors.name = "Please tell us your name";
+  if (!phone) errors.phone = "Please enter a valid UK phone number";
+  if (!district) errors.postcode = "A valid postcode is required";
+  if (!Number.isInteger(skipId) || !Number.isInteger(skipSize)) {
+    errors.skip = "The skip you asked about is missing";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const stored = await recordCallbackRequest({
+    name,
+    phone: phone!,
+    outwardCode: district!.outward,
+    skipId: skipId as number,
+    skipSize: skipSize as number,
+  });
+  return NextResponse.json(stored, { status: 201 });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordPaymentOutcome } from "@/lib/booking-payments";
+import {
+  getPaymentErrorStatus,
+  getPaymentProvider,
+  PaymentProviderError,
+} from "@/lib/payment-provider";
+
+/**
+ * POST /api/payments/:id/challenge
+ *
+ * Body: { authenticated: boolean }
+ *
+ * Completes the 3-D Secure check for a payment in requires_action.
+ * Responds 200 with the PaymentIntent - succeeded (the booking is marked
+ * paid) or back to requires_payment_method with a failureReason - or 409 if
+ * the payment isn't waiting for a check.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as {
+    authenticated?: unknown;
+  } | null;
+  if (typeof body?.authenticated !== "boolean") {
+    return NextResponse.json(
+      { errors: { authenticated: "The result of the check is required" } },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const intent = await provider.completeChallenge(id, body.authenticated);
+    await recordPaymentOutcome(provider, intent);
+    return NextResponse.json(intent);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: getPaymentErrorStatus(error) },
+      );
+    }
+    throw error;
+  }
+}
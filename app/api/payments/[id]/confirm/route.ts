@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordPaymentOutcome } from "@/lib/booking-payments";
+import { validateCardDetails } from "@/lib/card-validation";
+import {
+  getPaymentErrorStatus,
+  getPaymentProvider,
+  PaymentProviderError,
+} from "@/lib/payment-provider";
+import type { CardDetails } from "@/types";
+
+/**
+ * POST /api/payments/:id/confirm
+ *
+ * Body: { card: { number, expiry, cvc } }
+ *
+ * Pays with a card. Responds 200 with the PaymentIntent: succeeded (the
+ * booking is marked paid), requires_action (the customer must authenticate
+ * with their bank, see ../challenge) or requires_payment_method with a
+ * failureReason when the card was declined. Card details that fail the
+ * basic checks get a 400 with per-field errors.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as {
+    card?: Partial<Record<keyof CardDetails, unknown>>;
+  } | null;
+  const card: CardDetails = {
+    number: typeof body?.card?.number === "string" ? body.card.number : "",
+    expiry: typeof body?.card?.expiry === "string" ? body.card.expiry : "",
+    cvc: typeof body?.card?.cvc === "string" ? body.card.cvc : "",
+  };
+
+  const errors = validateCardDetails(card);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const intent = await provider.confirmIntent(id, card);
+    await recordPaymentOutcome(provider, intent);
+    return NextResponse.json(intent);
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: getPaymentErrorStatus(error) },
+      );
+    }
+    throw error;
+  }
+}
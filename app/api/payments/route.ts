@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startBookingPayment } from "@/lib/booking-payments";
+import {
+  getPaymentErrorStatus,
+  getPaymentProvider,
+  PaymentProviderError,
+} from "@/lib/payment-provider";
+
+/**
+ * POST /api/payments
+ *
+ * Body: { reference }
+ *
+ * Starts paying for a booking, or carries on the payment already under way
+ * for it. The amount is the booking's stored total, never one sent by the
+ * browser. Responds 201 with the PaymentIntent, 404 for an unknown booking
+ * or 409 when it has already been paid for.
+ */
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => null)) as {
+    reference?: unknown;
+  } | null;
+  if (typeof body?.reference !== "string" || !body.reference.trim()) {
+    return NextResponse.json(
+      { errors: { reference: "A booking reference is required" } },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const intent = await startBookingPayment(
+      getPaymentProvider(),
+      body.reference,
+    );
+    return NextResponse.json(intent, { status: 201 });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: getPaymentErrorStatus(error) },
+      );
+    }
+    throw error;
+  }
+}
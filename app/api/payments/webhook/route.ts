@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordPaymentOutcome } from "@/lib/booking-payments";
+import {
+  getPaymentErrorStatus,
+  getPaymentProvider,
+  PaymentProviderError,
+} from "@/lib/payment-provider";
+
+/**
+ * POST /api/payments/webhook
+ *
+ * Receives payment events from the provider (e.g. a refund made from its
+ * dashboard) and updates the booking to match. The signature is checked
+ * against the raw body by the provider, so the body isn't parsed here.
+ * Responds 200 once handled, 401 for a bad signature.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+    const event = await provider.parseWebhook(
+      await request.text(),
+      request.headers.get("payment-signature"),
+    );
+    await recordPaymentOutcome(provider, event.intent);
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    if (error instanceof PaymentProviderError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: getPaymentErrorStatus(error) },
+      );
+    }
+    throw error;
+  }
+}
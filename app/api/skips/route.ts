@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBookingStats } from "@/lib/booking-store";
+import { parseOutwardCode } from "@/lib/postcode";
+import { resolveSkipCatalogue } from "@/lib/skip-catalogue";
+import { UpstreamSkipError } from "@/lib/skip-upstream";
+
+/**
+ * GET /api/skips?postcode=NR32&area=
+ *
+ * Accepts a full postcode or an outward code on its own and resolves the
+ * price set for its district (district → postcode area → regional default)
+ * so the browser never talks to the supplier directly. Responds with a
+ * SkipCatalogueResponse carrying the raw records; validation and display
+ * transformation happen in the client data layer.
+ * Postcodes outside every service region get a 404 with notServed set.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const postcode = searchParams.get("postcode")?.trim() ?? "";
+  const area = searchParams.get("area")?.trim() ?? "";
+
+  if (!postcode) {
+    return NextResponse.json(
+      { error: "A postcode is required to look up skips" },
+      { status: 400 },
+    );
+  }
+
+  const district = parseOutwardCode(postcode);
+  if (!district) {
+    return NextResponse.json(
+      { error: "That doesn't look like a valid UK postcode" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const catalogue = await resolveSkipCatalogue(district, area);
+    if (!catalogue) {
+      return NextResponse.json(
+        {
+          error: `Sorry, we don't currently serve ${district.outward}`,
+          notServed: true,
+        },
+        { status: 404 },
+      );
+    }
+    const bookingStats = await getBookingStats(district.area);
+    return NextResponse.json({ ...catalogue, bookingStats });
+  } catch (error) {
+    if (error instanceof UpstreamSkipError) {
+      return NextResponse.json({ error: error.message }, { status: 502 });
+    }
+    throw error;
+  }
+}
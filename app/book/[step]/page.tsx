@@ -0,0 +1,13 @@
+import { MultiStepBuilder } from "../../components/multi-step-builder";
+import { BOOKING_STEP_SLUGS } from "@/lib/booking-link";
+
+// One page per booking step; any other /book path is a 404
+export const dynamicParams = false;
+
+export const generateStaticParams = () =>
+  BOOKING_STEP_SLUGS.map((step) => ({ step }));
+
+// The builder reads the step from the URL, so every step shares this page
+export default function BookingStepPage() {
+  return <MultiStepBuilder />;
+}
@@ -0,0 +1,21 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { BookingConfirmation } from "../../components/booking-confirmation";
+import { findBookingByReference } from "@/lib/booking-store";
+
+type BookingPageProps = { params: Promise<{ reference: string }> };
+
+export const generateMetadata = async ({
+  params,
+}: BookingPageProps): Promise<Metadata> => ({
+  title: `Booking ${(await params).reference.toUpperCase()}`,
+});
+
+// Where the booking flow lands once a booking is paid for; the reference
+// in the URL is all that's needed to come back to it
+export default async function BookingPage({ params }: BookingPageProps) {
+  const booking = await findBookingByReference((await params).reference);
+  if (!booking) notFound();
+
+  return <BookingConfirmation booking={booking} />;
+}
@@ -0,0 +1,186 @@
+import {
+  CalendarPlus,
+  Check,
+  Clock,
+  Download,
+  FileText,
+  RotateCcw,
+  type LucideIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getSiteAddressLines } from "@/lib/booking-draft";
+import { formatDisplayDate } from "@/lib/dates";
+import { collectionOptionLabels, getHireTimeline } from "@/lib/collection";
+import { placementOptions } from "@/lib/permits";
+import { formatPrice, getPriceBreakdownLines } from "@/lib/pricing";
+import { deliverySlotLabels } from "@/data/depot";
+import type { Booking, BookingPaymentStatus } from "@/types";
+import { HireTimeline } from "./hire-timeline";
+
+// Heading, icon and colour for each payment status
+const statusStyles: Record<
+  BookingPaymentStatus,
+  { title: string; icon: LucideIcon; className: string }
+> = {
+  paid: {
+    title: "Booking confirmed",
+    icon: Check,
+    className: "bg-green-100 text-green-600 dark:bg-green-900/30",
+  },
+  pending: {
+    title: "Awaiting payment",
+    icon: Clock,
+    className: "bg-amber-100 text-amber-600 dark:bg-amber-900/30",
+  },
+  refunded: {
+    title: "Booking refunded",
+    icon: RotateCcw,
+    className: "bg-gray-100 text-gray-600 dark:bg-gray-800",
+  },
+};
+
+/**
+ * BookingConfirmation Component
+ *
+ * Everything about a placed booking: its reference, the skip, where it goes
+ * and when, the hire timeline and the price paid, with links to the VAT
+ * invoice once it's paid for.
+ *
+ * @param booking - The stored booking
+ */
+export const BookingConfirmation = ({ booking }: { booking: Booking }) => {
+  const status = statusStyles[booking.paymentStatus];
+  const StatusIcon = status.icon;
+  // Early collection is stored as the date it happens
+  const timeline = getHireTimeline({
+    deliveryDate: booking.deliveryDate,
+    hireDays: booking.hireDays,
+    option: booking.collectionOption,
+    earlyDate: booking.collectionDate,
+    deliverySlot: booking.deliverySlot,
+    placement: booking.placement,
+  });
+  const details = [
+    { label: "Skip", value: `${booking.skipName} (${booking.skipSize} yd)` },
+    {
+      label: "Delivery address",
+      value: getSiteAddressLines(booking.customer, booking.postcode).join(", "),
+    },
+    {
+      label: "Placement",
+      value: placementOptions.find(({ value }) => value === booking.placement)
+        ?.label,
+    },
+    {
+      label: "Delivery",
+      value: `${formatDisplayDate(booking.deliveryDate)}, ${deliverySlotLabels[booking.deliverySlot]}`,
+    },
+    {
+      label: "Collection",
+      value: `${formatDisplayDate(booking.collectionDate)} (${collectionOptionLabels[booking.collectionOption].toLowerCase()})`,
+    },
+    { label: "Hire period", value: `${booking.hireDays} days` },
+  ];
+  const bookingPath = `/api/bookings/${encodeURIComponent(booking.reference)}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-6 md:py-12 dark:from-slate-900 dark:via-blue-950 dark:to-indigo-950">
+      <div className="container mx-auto max-w-2xl px-4">
+        <div className="rounded-2xl border border-white/20 bg-white/80 p-4 shadow-2xl backdrop-blur-xl md:rounded-3xl md:p-8 dark:bg-gray-900/80">
+          {/* Status and reference */}
+          <div className="mb-8 text-center">
+            <div
+              className={cn(
+                "mx-auto mb-4 flex h-14 w-14 items-center justify-center rounded-full",
+                status.className,
+              )}
+            >
+              <StatusIcon className="h-8 w-8" />
+            </div>
+            <h1 className="mb-2 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
+              {status.title}
+            </h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Your reference
+            </p>
+            <p className="font-mono text-2xl font-bold tracking-wider text-gray-900 dark:text-white">
+              {booking.reference}
+            </p>
+          </div>
+
+          {/* What, where and when */}
+          <dl className="mb-6 space-y-2 rounded-lg bg-gray-50 p-4 text-sm dark:bg-gray-800">
+            {details.map(({ label, value }) => (
+              <div key={label} className="flex justify-between gap-4">
+                <dt className="text-gray-600 dark:text-gray-400">{label}</dt>
+                <dd className="text-right font-medium text-gray-900 dark:text-white">
+                  {value}
+                </dd>
+              </div>
+            ))}
+          </dl>
+
+          {timeline.length > 0 && (
+            <div className="mb-6 rounded-lg bg-gray-50 p-4 dark:bg-gray-800">
+              <h2 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
+                Your hire timeline
+              </h2>
+              <HireTimeline events={timeline} />
+              {/* Delivery and collection for the customer's calendar */}
+              <a
+                href={`${bookingPath}/calendar.ics`}
+                download={`skip-hire-${booking.reference}.ics`}
+                className="mt-4 inline-flex items-center text-sm font-medium text-blue-600 hover:underline dark:text-blue-400"
+              >
+                <CalendarPlus className="mr-1.5 h-4 w-4" />
+                Add to calendar
+              </a>
+            </div>
+          )}
+
+          {/* Price breakdown, as charged */}
+          <dl className="mb-6 space-y-2 rounded-lg bg-gray-50 p-4 text-sm dark:bg-gray-800">
+            {getPriceBreakdownLines(booking.price).map((line) => (
+              <div key={line.label} className="flex justify-between">
+                <dt className="text-gray-600 dark:text-gray-400">
+                  {line.label}
+                </dt>
+                <dd className="font-medium text-gray-900 dark:text-white">
+                  {formatPrice(line.amount)}
+                </dd>
+              </div>
+            ))}
+            <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold text-gray-900 dark:border-gray-700 dark:text-white">
+              <dt>
+                {booking.paymentStatus === "paid" ? "Total paid" : "Total"}
+              </dt>
+              <dd>{formatPrice(booking.price.total)}</dd>
+            </div>
+          </dl>
+
+          {/* VAT invoice, issued once paid */}
+          {booking.invoiceNumber && (
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <a
+                href={`${bookingPath}/invoice.pdf`}
+                className="flex flex-1 items-center justify-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download invoice (PDF)
+              </a>
+              <a
+                href={`${bookingPath}/invoice.html`}
+                target="_blank"
+                rel="noopener"
+                className="flex flex-1 items-center justify-center rounded-lg px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+              >
+                <FileText className="mr-2 h-4 w-4" />
+                View invoice {booking.invoiceNumber}
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
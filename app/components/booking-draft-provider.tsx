@@ -0,0 +1,93 @@
+"use client";
+
+import { createContext, useContext, useReducer, type Dispatch } from "react";
+import {
+  bookingDraftReducer,
+  getDraftOutwardCode,
+  initialBookingDraft,
+  type BookingDraftAction,
+} from "@/lib/booking-draft";
+import { useSkips, type SkipsState } from "@/lib/use-skips";
+import {
+  getDefaultSkipIndex,
+  recommendSkipsForWaste,
+  type WasteRecommendation,
+} from "@/lib/waste-recommendation";
+import { getWasteType, type WasteType } from "@/data/waste-types";
+import type { BookingDraft, Skip } from "@/types";
+
+// What every step sees: the draft, a way to change it and the skips it refers to
+interface BookingDraftContextValue {
+  draft: BookingDraft;
+  dispatch: Dispatch<BookingDraftAction>;
+  outwardCode: string; // Outward code of the postcode, else ""
+  skipsState: SkipsState; // Skips loaded for the outward code
+  retrySkips: () => void;
+  wasteType?: WasteType;
+  recommendation: WasteRecommendation; // Skips filtered for the waste type
+  selectedSkip: Skip | null; // Chosen skip, else the recommended size
+}
+
+const BookingDraftContext = createContext<BookingDraftContextValue | null>(
+  null,
+);
+
+/**
+ * BookingDraftProvider Component
+ *
+ * Holds the booking draft for the whole flow, so choices survive steps
+ * unmounting and reach payment. Skips for the draft's postcode are loaded
+ * here too, letting any step resolve the selected skip or offer alternatives.
+ *
+ * @param children - The booking flow
+ */
+export const BookingDraftProvider = ({
+  children,
+}: {
+  children: React.ReactNode;
+}) => {
+  const [draft, dispatch] = useReducer(
+    bookingDraftReducer,
+    initialBookingDraft,
+  );
+  const outwardCode = getDraftOutwardCode(draft);
+
+  const { state: skipsState, retry: retrySkips } = useSkips({
+    postcode: outwardCode,
+  });
+  const wasteType = getWasteType(draft.wasteTypeId);
+  const recommendation = recommendSkipsForWaste(
+    skipsState.status === "success" ? skipsState.skips : [],
+    wasteType,
+  );
+  const selectedSkip =
+    recommendation.skips.find((skip) => skip.id === draft.skipId) ??
+    recommendation.skips[getDefaultSkipIndex(recommendation)] ??
+    null;
+
+  return (
+    <BookingDraftContext.Provider
+      value={{
+        draft,
+        dispatch,
+        outwardCode,
+        skipsState,
+        retrySkips,
+        wasteType,
+        recommendation,
+        selectedSkip,
+      }}
+    >
+      {children}
+    </BookingDraftContext.Provider>
+  );
+};
+
+// The shared booking draft; must be used inside a BookingDraftProvider
+export const useBookingDraft = (): BookingDraftContextValue => {
+  const context = useContext(BookingDraftContext);
+  if (!context) {
+    throw new Error("useBookingDraft must be used within BookingDraftProvider");
+  }
+  return context;
+};
@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, PhoneCall, Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Skip } from "@/types";
+
+/**
+ * CallbackRequestForm Component
+ *
+ * Shown on unavailable (forbidden) skip cards so customers can still ask
+ * about a size that can't be booked online in their area. Posts to
+ * /api/callback-requests and shows inline field errors from the server.
+ *
+ * @param skip - The unavailable skip the customer is asking about
+ * @param postcode - Customer postcode or outward code
+ */
+export const CallbackRequestForm = ({
+  skip,
+  postcode,
+}: {
+  skip: Skip;
+  postcode: string;
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [status, setStatus] = useState<"idle" | "sending" | "sent" | "error">(
+    "idle",
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const submit = async () => {
+    setStatus("sending");
+    setErrors({});
+    try {
+      const response = await fetch("/api/callback-requests", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          phone,
+          postcode,
+          skipId: skip.id,
+          skipSize: skip.size,
+        }),
+      });
+      if (response.ok) {
+        setStatus("sent");
+        return;
+      }
+      const body = await response.json().catch(() => null);
+      setErrors(body?.errors ?? {});
+      setStatus("error");
+    } catch {
+      setStatus("error");
+    }
+  };
+
+  if (status === "sent") {
+    return (
+      <p className="flex items-center text-sm text-green-700 dark:text-green-400">
+        <Check className="mr-2 h-4 w-4 flex-shrink-0" />
+        Thanks {name.trim()}, we&apos;ll call you about the {skip.size} yard
+        skip shortly.
+      </p>
+    );
+  }
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+      >
+        <PhoneCall className="mr-2 h-4 w-4" />
+        Request a call back
+      </button>
+    );
+  }
+
+  const inputClassName = (field: string) =>
+    cn(
+      "w-full rounded-lg border px-3 py-2 text-sm text-gray-900 placeholder-gray-500 focus:ring-2 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400",
+      errors[field]
+        ? "border-red-500 focus:border-red-500 focus:ring-red-500"
+        : "border-gray-300 focus:border-blue-500 focus:ring-blue-500 dark:border-gray-600",
+    );
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        submit();
+      }}
+      className="space-y-3"
+    >
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div>
+          <input
+            type="text"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            placeholder="Your name"
+            autoComplete="name"
+            aria-label="Your name"
+            className={inputClassName("name")}
+          />
+          {errors.name && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+              {errors.name}
+            </p>
+          )}
+        </div>
+        <div>
+          <input
+            type="tel"
+            value={phone}
+            onChange={(event) => setPhone(event.target.value)}
+            placeholder="Phone number"
+            autoComplete="tel"
+            aria-label="Phone number"
+            className={inputClassName("phone")}
+          />
+          {errors.phone && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">
+              {errors.phone}
+            </p>
+          )}
+        </div>
+      </div>
+      {status === "error" && Object.keys(errors).length === 0 && (
+        <p className="text-xs text-red-600 dark:text-red-400">
+          We couldn&apos;t send your request. Please try again.
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={status === "sending"}
+        className="flex items-center rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-gray-400"
+      >
+        {status === "sending" ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <PhoneCall className="mr-2 h-4 w-4" />
+        )}
+        Call me back
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,45 @@
+"use client";
+
+import { Minus, Plus } from "lucide-react";
+
+/**
+ * Counter Component
+ *
+ * A small -/+ stepper for whole, non-negative counts (rooms, items, bags).
+ *
+ * @param label - Text shown beside the stepper, also used for button labels
+ * @param value - Current count
+ * @param onChange - Called with the new count
+ */
+export const Counter = ({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+    <span>{label}</span>
+    <div className="flex items-center space-x-2">
+      <button
+        type="button"
+        onClick={() => onChange(Math.max(0, value - 1))}
+        aria-label={`Fewer ${label.toLowerCase()}`}
+        className="rounded-full border border-gray-300 p-1 hover:border-blue-500 dark:border-gray-600"
+      >
+        <Minus className="h-3 w-3" />
+      </button>
+      <span className="w-6 text-center font-medium">{value}</span>
+      <button
+        type="button"
+        onClick={() => onChange(value + 1)}
+        aria-label={`More ${label.toLowerCase()}`}
+        className="rounded-full border border-gray-300 p-1 hover:border-blue-500 dark:border-gray-600"
+      >
+        <Plus className="h-3 w-3" />
+      </button>
+    </div>
+  </div>
+);
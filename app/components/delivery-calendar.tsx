@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { parseIsoDate } from "@/lib/dates";
+import {
+  getDeliveryDay,
+  getDeliveryMonth,
+  getDepotToday,
+  getFirstAvailableDate,
+  type AvailabilityOptions,
+} from "@/lib/delivery-availability";
+import { deliverySlotLabels } from "@/data/depot";
+import type { DeliverySlot } from "@/types";
+
+// Column headings, Monday first
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/**
+ * DeliveryCalendar Component
+ *
+ * Month calendar of delivery days. Unavailable days (past, too soon, closed,
+ * bank holidays, permit notice) are greyed out with the reason as a tooltip;
+ * picking an available day offers its AM/PM slots.
+ *
+ * @param options - Lead time, permit notice and clock used for availability
+ * @param date - Selected ISO date ("" when none)
+ * @param slot - Selected slot, if any
+ * @param onChange - Called with the new date and slot (null until a slot is picked)
+ */
+export const DeliveryCalendar = ({
+  options,
+  date,
+  slot,
+  onChange,
+}: {
+  options: AvailabilityOptions;
+  date: string;
+  slot: DeliverySlot | null;
+  onChange: (date: string, slot: DeliverySlot | null) => void;
+}) => {
+  // Open on the selected date, else the first bookable one
+  const [view, setView] = useState(() => {
+    const start =
+      parseIsoDate(date) ??
+      parseIsoDate(getFirstAvailableDate(options) ?? "") ??
+      parseIsoDate(getDepotToday(options.now))!;
+    return { year: start.getUTCFullYear(), month: start.getUTCMonth() };
+  });
+
+  const days = getDeliveryMonth(view.year, view.month, options);
+  // Blank cells before the 1st so weeks start on Monday
+  const leadingBlanks = (parseIsoDate(days[0].date)!.getUTCDay() + 6) % 7;
+  const selectedDay = date ? getDeliveryDay(date, options) : null;
+  const monthLabel = new Date(
+    Date.UTC(view.year, view.month),
+  ).toLocaleDateString("en-GB", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  const moveMonth = (offset: number) =>
+    setView(({ year, month }) => {
+      const next = new Date(Date.UTC(year, month + offset));
+      return { year: next.getUTCFullYear(), month: next.getUTCMonth() };
+    });
+
+  return (
+    <div className="space-y-4">
+      {/* Month navigation */}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => moveMonth(-1)}
+          aria-label="Previous month"
+          className="rounded-full p-2 text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="font-medium text-gray-900 dark:text-white">
+          {monthLabel}
+        </span>
+        <button
+          type="button"
+          onClick={() => moveMonth(1)}
+          aria-label="Next month"
+          className="rounded-full p-2 text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Day grid */}
+      <div className="grid grid-cols-7 gap-1 text-center text-sm">
+        {WEEKDAYS.map((weekday) => (
+          <span
+            key={weekday}
+            className="py-1 text-xs font-medium text-gray-500 dark:text-gray-400"
+          >
+            {weekday}
+          </span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, index) => (
+          <span key={`blank-${index}`} />
+        ))}
+        {days.map((day) => {
+          const isSelected = day.date === date;
+          return (
+            <button
+              key={day.date}
+              type="button"
+              disabled={!day.available}
+              title={day.reason}
+              aria-label={`${day.date}${day.reason ? ` - ${day.reason}` : ""}`}
+              aria-pressed={isSelected}
+              onClick={() =>
+                onChange(
+                  day.date,
+                  // Keep the slot if the new day offers it too
+                  slot && day.slots.includes(slot)
+                    ? slot
+                    : day.slots.length === 1
+                      ? day.slots[0]
+                      : null,
+                )
+              }
+              className={cn(
+                "rounded-lg py-2 transition-colors",
+                isSelected
+                  ? "bg-blue-600 font-semibold text-white"
+                  : day.available
+                    ? "text-gray-900 hover:bg-blue-50 dark:text-white dark:hover:bg-blue-900/30"
+                    : "cursor-not-allowed text-gray-300 line-through dark:text-gray-600",
+              )}
+            >
+              {Number(day.date.slice(8))}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Why the selected date can't be booked (e.g. notice changed since) */}
+      {selectedDay && !selectedDay.available && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {selectedDay.reason}. Please choose another day.
+        </p>
+      )}
+
+      {/* Half-day slots for the selected day */}
+      {selectedDay?.available && (
+        <div className="grid grid-cols-2 gap-2">
+          {(["am", "pm"] as DeliverySlot[]).map((option) => {
+            const offered = selectedDay.slots.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                disabled={!offered}
+                aria-pressed={slot === option}
+                onClick={() => onChange(date, option)}
+                className={cn(
+                  "rounded-lg border px-3 py-2 text-sm transition-colors",
+                  slot === option
+                    ? "border-blue-500 bg-blue-50 text-blue-700 ring-2 ring-blue-500 dark:bg-blue-900/30 dark:text-blue-300"
+                    : offered
+                      ? "border-gray-300 text-gray-700 hover:border-blue-500 dark:border-gray-600 dark:text-gray-300"
+                      : "cursor-not-allowed border-gray-200 text-gray-300 dark:border-gray-700 dark:text-gray-600",
+                )}
+              >
+                {deliverySlotLabels[option]}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import { Clock, FileCheck, Truck, type LucideIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDisplayDate } from "@/lib/dates";
+import type { TimelineEvent } from "@/types";
+
+// Icon and accent colour per event kind
+const eventStyles: Record<
+  TimelineEvent["kind"],
+  { icon: LucideIcon; className: string }
+> = {
+  delivery: { icon: Truck, className: "bg-blue-600" },
+  hire: { icon: Clock, className: "bg-emerald-600" },
+  permit: { icon: FileCheck, className: "bg-amber-500" },
+  collection: { icon: Truck, className: "bg-indigo-600" },
+};
+
+/**
+ * HireTimeline Component
+ *
+ * Vertical timeline of a booking: delivery, the hire period, any road permit
+ * window and collection. Spans show a date range.
+ *
+ * @param events - Timeline events in date order (see getHireTimeline)
+ * @param className - Optional container styling
+ */
+export const HireTimeline = ({
+  events,
+  className,
+}: {
+  events: TimelineEvent[];
+  className?: string;
+}) => (
+  <ol className={cn("relative space-y-4 text-left", className)}>
+    {events.map((event, index) => {
+      const { icon: Icon, className: accent } = eventStyles[event.kind];
+      return (
+        <li key={`${event.kind}-${index}`} className="relative flex">
+          {/* Connector line between events */}
+          {index < events.length - 1 && (
+            <span className="absolute top-8 left-4 h-full w-px bg-gray-200 dark:bg-gray-700" />
+          )}
+          <span
+            className={cn(
+              "relative z-10 mr-3 flex h-8 w-8 flex-shrink-0 items-center justify-center rounded-full text-white",
+              accent,
+            )}
+          >
+            <Icon className="h-4 w-4" />
+          </span>
+          <div className="text-sm">
+            <div className="font-medium text-gray-900 dark:text-white">
+              {event.label}
+            </div>
+            <div className="text-gray-600 dark:text-gray-400">
+              {formatDisplayDate(event.start)}
+              {event.end && ` – ${formatDisplayDate(event.end)}`}
+            </div>
+            {event.detail && (
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {event.detail}
+              </div>
+            )}
+          </div>
+        </li>
+      );
+    })}
+  </ol>
+);
@@ -10,10 +10,21 @@ import {
   MapPin,
   CheckCircle,
   XCircle,
+  Star,
+  Ban,
+  AlertTriangle,
+  Sparkles,
+  Info,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { skipData } from "@/data/skip-data";
-import type { Skip } from "@/types";
+import { formatPrice } from "@/lib/pricing";
+import { quoteSkip } from "@/lib/quote";
+import { HIRE_PERIOD_OPTIONS } from "@/data/hire-periods";
+import { hasWeightCharge } from "@/lib/weight-estimate";
+import { WeightEstimator } from "./weight-estimator";
+import { CallbackRequestForm } from "./callback-request-form";
+import { useBookingDraft } from "./booking-draft-provider";
+import type { Skip, WasteFit } from "@/types";
 
 /**
  * HybridSkipPanel Component
@@ -53,11 +64,34 @@ interface Tab {
  * 1. Header with gradient background (name, pricing, basic info)
  * 2. Specifications grid (capacity, dimensions, weight)
  * 3. Permissions section (road placement, heavy waste)
- * 4. Recommended use cases with tags
+ * 4. Weight estimator (skips with a per_tonne_cost only)
+ * 5. Recommended use cases with tags, and how well it suits the waste type
  *
  * @param skip - Complete skip data object with all specifications
+ * @param wasteFit - How well the skip suits the chosen waste type, if any
+ * @param locationLabel - Customer location to show instead of the price set's postcode
+ *
+ * The hire length and customer postcode come from the booking draft; picking
+ * another hire length updates the draft and the price live.
  */
-const SkipContent = ({ skip }: { skip: Skip }) => {
+const SkipContent = ({
+  skip,
+  wasteFit,
+  locationLabel,
+}: {
+  skip: Skip;
+  wasteFit?: WasteFit;
+  locationLabel?: string;
+}) => {
+  const { draft, dispatch, outwardCode: postcode } = useBookingDraft();
+  const { hireDays } = draft;
+  const onHireDaysChange = (days: number) =>
+    dispatch({ type: "setHireDays", hireDays: days });
+
+  // Price including any extra hire days
+  const pricing = quoteSkip(skip, { hireDays });
+  const extras = pricing.surcharges.reduce((sum, line) => sum + line.amount, 0);
+
   return (
     <div className="w-full max-w-full overflow-hidden rounded-2xl border border-white/20 bg-white/95 shadow-2xl backdrop-blur-2xl md:rounded-3xl dark:bg-gray-900/95">
       {/* Header section with gradient background and pricing */}
@@ -71,8 +105,15 @@ const SkipContent = ({ skip }: { skip: Skip }) => {
           <div className="flex flex-col items-start justify-between space-y-4 md:flex-row md:items-center md:space-y-0">
             {/* Left section: Skip name, description, and service details */}
             <div className="flex-1">
-              <h3 className="mb-2 text-xl font-bold md:text-3xl">
+              <h3 className="mb-2 flex flex-wrap items-center gap-2 text-xl font-bold md:text-3xl">
                 {skip.name} Skip
+                {/* Badge assigned from booking data, e.g. "Most Popular" */}
+                {skip.badge && (
+                  <span className="flex items-center rounded-full bg-white/25 px-2.5 py-0.5 text-xs font-semibold md:text-sm">
+                    <Star className="mr-1 h-3 w-3 fill-current md:h-4 md:w-4" />
+                    {skip.badge}
+                  </span>
+                )}
               </h3>
               <p className="text-sm text-white/90 md:text-lg">
                 {skip.description}
@@ -89,33 +130,81 @@ const SkipContent = ({ skip }: { skip: Skip }) => {
                 </div>
                 <div className="flex items-center space-x-1 whitespace-nowrap">
                   <MapPin className="h-3 w-3 md:h-4 md:w-4" />
-                  <span>{skip.postcode}</span>
+                  <span>{locationLabel ?? skip.postcode}</span>
                 </div>
               </div>
             </div>
             {/* Right section: Pricing information */}
-            <div className="text-left md:text-right">
-              {/* Main price with responsive sizing */}
-              <div className="mb-1 text-3xl font-bold md:text-5xl">
-                £{skip.final_price}
-              </div>
-              {/* Hire period information */}
-              <div className="text-xs text-white/80 md:text-sm">
-                {skip.hire_period_days}-day hire period
+            {skip.forbidden ? (
+              <div className="text-left md:text-right">
+                <div className="mb-1 flex items-center text-2xl font-bold md:justify-end md:text-3xl">
+                  <Ban className="mr-2 h-6 w-6" />
+                  Unavailable
+                </div>
+                <div className="text-xs text-white/80 md:text-sm">
+                  Not bookable online in your area
+                </div>
               </div>
-              {/* Price breakdown with VAT and optional transport */}
-              <div className="mt-1 text-xs text-white/70">
-                £{skip.price_before_vat} + £
-                {Math.round((skip.price_before_vat * skip.vat) / 100)} VAT
-                {skip.transport_cost && ` + £${skip.transport_cost} transport`}
+            ) : (
+              <div className="text-left md:text-right">
+                {/* Main price with responsive sizing */}
+                <div className="mb-1 text-3xl font-bold md:text-5xl">
+                  {formatPrice(pricing.total)}
+                </div>
+                {/* Hire period information */}
+                <div className="text-xs text-white/80 md:text-sm">
+                  {hireDays}-day hire period
+                </div>
+                {/* Price breakdown with VAT, extra days and optional transport */}
+                <div className="mt-1 text-xs text-white/70">
+                  {formatPrice(pricing.base)}
+                  {extras > 0 && ` + ${formatPrice(extras)} extra days`}
+                  {pricing.transport > 0 &&
+                    ` + ${formatPrice(pricing.transport)} transport`}{" "}
+                  + {formatPrice(pricing.vat)} VAT
+                </div>
+                {/* Hire length selector */}
+                <div
+                  role="radiogroup"
+                  aria-label="Hire period"
+                  className="mt-3 flex flex-wrap gap-1.5 md:justify-end"
+                >
+                  {HIRE_PERIOD_OPTIONS.map((days) => (
+                    <button
+                      key={days}
+                      role="radio"
+                      aria-checked={hireDays === days}
+                      onClick={() => onHireDaysChange(days)}
+                      className={cn(
+                        "rounded-full px-2.5 py-1 text-xs font-medium transition-colors",
+                        hireDays === days
+                          ? "bg-white text-gray-900"
+                          : "bg-white/20 text-white hover:bg-white/30",
+                      )}
+                    >
+                      {days} days
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Main content area with specifications and details */}
       <div className="space-y-4 p-3 md:space-y-8 md:p-8">
+        {/* Why an unavailable skip can't be booked, with a call back action */}
+        {skip.unavailableReason && (
+          <div className="space-y-3 rounded-lg border border-amber-300 bg-amber-50 p-3 md:rounded-xl md:p-4 dark:border-amber-700 dark:bg-amber-900/20">
+            <p className="flex items-start text-sm text-amber-800 dark:text-amber-300">
+              <AlertTriangle className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+              {skip.unavailableReason}
+            </p>
+            <CallbackRequestForm skip={skip} postcode={postcode} />
+          </div>
+        )}
+
         {/* Skip specifications grid - responsive layout */}
         <div className="grid grid-cols-2 gap-2 md:grid-cols-3 md:gap-6">
           {/* Capacity specification card */}
@@ -168,7 +257,7 @@ const SkipContent = ({ skip }: { skip: Skip }) => {
               {skip.weight}
             </div>
             <div className="text-xs text-gray-600 md:text-sm dark:text-gray-400">
-              Max weight
+              Weight allowance
             </div>
           </div>
         </div>
@@ -226,11 +315,34 @@ const SkipContent = ({ skip }: { skip: Skip }) => {
           </div>
         </div>
 
+        {/* Overweight estimator for skips charged per tonne */}
+        {hasWeightCharge(skip) && !skip.forbidden && (
+          <WeightEstimator skip={skip} hireDays={hireDays} />
+        )}
+
         {/* Recommended use cases with visual tags */}
         <div>
           <h4 className="mb-3 text-sm font-semibold text-gray-900 md:text-base dark:text-white">
             Recommended for
           </h4>
+          {/* Why this size suits (or is our pick for) the chosen waste type */}
+          {wasteFit && (
+            <p
+              className={cn(
+                "mb-3 flex items-start rounded-lg p-2.5 text-xs md:p-3 md:text-sm",
+                wasteFit.status === "recommended"
+                  ? "bg-blue-50 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300"
+                  : "bg-gray-50 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+              )}
+            >
+              {wasteFit.status === "recommended" ? (
+                <Sparkles className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+              ) : (
+                <Info className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+              )}
+              {wasteFit.reason}
+            </p>
+          )}
           {/* Flexible tag container with wrapping */}
           <div className="flex flex-wrap gap-2">
             {skip.bestFor.map((item, index) => (
@@ -273,15 +385,24 @@ const SkipContent = ({ skip }: { skip: Skip }) => {
  * - Timing: 0.3s for scale, 0.6s for floating with custom easing
  *
  * @param tabs - Array of tab data (reordered with active first)
+ * @param skips - Loaded skip records used to resolve each tab's card
+ * @param wasteFits - Waste-type fit per skip id, shown on each card
+ * @param locationLabel - Customer location shown in each card header
  * @param className - Optional styling override
  * @param hovering - Hover state from parent (not currently used)
  */
 export const HybridSkipPanel = ({
   tabs,
+  skips,
+  wasteFits,
+  locationLabel,
   className,
   hovering,
 }: {
   tabs: Tab[]; // Tab data array from parent Tabs component
+  skips: Skip[]; // Skip records to look tabs up in
+  wasteFits?: Record<number, WasteFit>; // Waste-type fit per skip id
+  locationLabel?: string; // Customer district / pricing source
   className?: string; // Optional container styling
   hovering?: boolean; // Hover state (passed from Tabs but not used)
 }) => {
@@ -299,6 +420,9 @@ export const HybridSkipPanel = ({
         // Only render the active card (prevents stacked cards)
         if (!isActive(tab)) return null;
 
+        const skip = skips.find((skip) => skip.id.toString() === tab.value);
+        if (!skip) return null;
+
         return (
           <motion.div
             key={tab.value}
@@ -315,7 +439,9 @@ export const HybridSkipPanel = ({
           >
             {/* Render the skip information card with data lookup */}
             <SkipContent
-              skip={skipData.find((skip) => skip.id.toString() === tab.value)!}
+              skip={skip}
+              wasteFit={wasteFits?.[skip.id]}
+              locationLabel={locationLabel}
             />
           </motion.div>
         );
@@ -14,6 +14,7 @@ import {
   XCircle,
 } from "lucide-react";
 import { InformationPanelProps } from "@/types";
+import { formatPrice, getPriceBreakdownLines } from "@/lib/pricing";
 
 /**
  * InformationPanel Component
@@ -90,16 +91,19 @@ export const InformationPanel = ({ skip }: InformationPanelProps) => {
             {/* Right section: Pricing information */}
             <div className="text-right">
               {/* Main price display */}
-              <div className="mb-1 text-5xl font-bold">£{skip.final_price}</div>
+              <div className="mb-1 text-5xl font-bold">
+                {formatPrice(skip.pricing.total)}
+              </div>
               {/* Hire period information */}
               <div className="text-sm text-white/80">
                 {skip.hire_period_days}-day hire period
               </div>
               {/* Price breakdown preview */}
               <div className="mt-1 text-xs text-white/70">
-                £{skip.price_before_vat} + £
-                {Math.round((skip.price_before_vat * skip.vat) / 100)} VAT
-                {skip.transport_cost && ` + £${skip.transport_cost} transport`}
+                {formatPrice(skip.pricing.base)}
+                {skip.pricing.transport > 0 &&
+                  ` + ${formatPrice(skip.pricing.transport)} transport`}{" "}
+                + {formatPrice(skip.pricing.vat)} VAT
               </div>
             </div>
           </div>
@@ -160,7 +164,7 @@ export const InformationPanel = ({ skip }: InformationPanelProps) => {
               {skip.weight}
             </div>
             <div className="text-sm text-gray-600 dark:text-gray-400">
-              Max weight
+              Weight allowance
             </div>
           </div>
         </div>
@@ -291,35 +295,19 @@ export const InformationPanel = ({ skip }: InformationPanelProps) => {
           </h4>
           {/* Pricing items with consistent spacing */}
           <div className="space-y-2 text-sm">
-            {/* Base price before VAT */}
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">
-                Base price:
-              </span>
-              <span className="font-medium">£{skip.price_before_vat}</span>
-            </div>
-            {/* VAT calculation display */}
-            <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">
-                VAT ({skip.vat}%):
-              </span>
-              <span className="font-medium">
-                £{Math.round((skip.price_before_vat * skip.vat) / 100)}
-              </span>
-            </div>
-            {/* Optional transport cost (if applicable) */}
-            {skip.transport_cost && (
-              <div className="flex justify-between">
+            {/* Itemised lines from the pricing engine (base, extras, VAT, fees) */}
+            {getPriceBreakdownLines(skip.pricing).map((line) => (
+              <div key={line.label} className="flex justify-between">
                 <span className="text-gray-600 dark:text-gray-400">
-                  Transport cost:
+                  {line.label}:
                 </span>
-                <span className="font-medium">£{skip.transport_cost}</span>
+                <span className="font-medium">{formatPrice(line.amount)}</span>
               </div>
-            )}
+            ))}
             {/* Total price with emphasis */}
             <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold dark:border-gray-700">
               <span>Total:</span>
-              <span className="text-lg">£{skip.final_price}</span>
+              <span className="text-lg">{formatPrice(skip.pricing.total)}</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,227 @@
+"use client";
+
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, ListChecks } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  assessSkipFill,
+  findNextFittingSkip,
+  sumInventory,
+  type Inventory,
+  type SkipFill,
+} from "@/lib/inventory";
+import { formatTonnes, hasWeightCharge } from "@/lib/weight-estimate";
+import { itemCatalogue, type InventoryItem } from "@/data/item-catalogue";
+import type { Skip } from "@/types";
+import { Counter } from "./counter";
+
+// Items grouped by category, in catalogue order
+const itemGroups = itemCatalogue.reduce<Record<string, InventoryItem[]>>(
+  (groups, item) => ({
+    ...groups,
+    [item.category]: [...(groups[item.category] ?? []), item],
+  }),
+  {},
+);
+
+// Horizontal gauge; turns amber when nearly full and red when over
+const FillBar = ({ label, fill }: { label: string; fill: number }) => (
+  <div className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+    <span className="w-12 flex-shrink-0">{label}</span>
+    <div className="h-2 flex-1 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700">
+      <div
+        className={cn(
+          "h-full rounded-full transition-all duration-300",
+          fill > 1
+            ? "bg-red-500"
+            : fill > 0.85
+              ? "bg-amber-500"
+              : "bg-green-500",
+        )}
+        style={{ width: `${Math.min(fill, 1) * 100}%` }}
+      />
+    </div>
+    <span className="w-10 flex-shrink-0 text-right">
+      {Number.isFinite(fill) ? `${Math.round(fill * 100)}%` : "–"}
+    </span>
+  </div>
+);
+
+// Customer-facing warnings for a skip the items don't fit in
+const fillWarnings = (skip: Skip, fill: SkipFill): string[] => {
+  const warnings: string[] = [];
+  if (fill.overfilled) {
+    warnings.push(
+      `Your items won't fit in the ${skip.name} - skips can't be filled above the rim.`,
+    );
+  }
+  if (fill.overweight) {
+    warnings.push(
+      hasWeightCharge(skip)
+        ? `That's over the ${formatTonnes(skip.includedTonnes * 1000)} weight allowance, so an overweight charge will apply.`
+        : `That's over the ${formatTonnes(skip.includedTonnes * 1000)} weight limit for this skip.`,
+    );
+  }
+  if (fill.heavyNotAllowed) {
+    warnings.push(
+      `The ${skip.name} can't take heavy waste such as rubble or soil.`,
+    );
+  }
+  return warnings;
+};
+
+/**
+ * ItemCalculator Component
+ *
+ * A collapsible item-by-item calculator. Customers add quantities of common
+ * items from the local item catalogue and see a volume and weight gauge for
+ * every skip. If the selected skip is overfilled, overweight or can't take
+ * the heavy items, a warning suggests the next size that fits.
+ *
+ * @param skips - Skips currently listed, in tab order
+ * @param activeIndex - Index of the skip shown in the tabs
+ * @param onSelect - Called with the index of a suggested skip
+ */
+export const ItemCalculator = ({
+  skips,
+  activeIndex,
+  onSelect,
+}: {
+  skips: Skip[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [inventory, setInventory] = useState<Inventory>({});
+
+  const totals = sumInventory(inventory);
+  const hasItems = totals.yards > 0;
+  const activeSkip = skips[activeIndex];
+  const activeFill = activeSkip && assessSkipFill(activeSkip, totals);
+  const suggestedIndex =
+    activeFill && !activeFill.fits
+      ? findNextFittingSkip(skips, totals, activeIndex)
+      : null;
+
+  return (
+    <div className="mb-4 w-full rounded-lg border border-gray-200 bg-white/70 md:mb-6 md:rounded-xl dark:border-gray-700 dark:bg-gray-800/50">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between p-3 text-left text-sm font-medium text-gray-900 md:p-4 md:text-base dark:text-white"
+      >
+        <span className="flex items-center">
+          <ListChecks className="mr-2 h-4 w-4 text-blue-600" />
+          Add up your items
+        </span>
+        <ChevronDown
+          className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
+        />
+      </button>
+
+      {open && (
+        <div className="grid gap-4 border-t border-gray-200 p-3 md:grid-cols-2 md:gap-6 md:p-4 dark:border-gray-700">
+          {/* Item quantities by category */}
+          <div className="space-y-3">
+            {Object.entries(itemGroups).map(([category, items]) => (
+              <div key={category} className="space-y-2">
+                <span className="block text-sm font-medium text-gray-900 capitalize dark:text-white">
+                  {category}
+                </span>
+                {items.map((item) => (
+                  <Counter
+                    key={item.id}
+                    label={item.label}
+                    value={inventory[item.id] ?? 0}
+                    onChange={(count) =>
+                      setInventory((current) => ({
+                        ...current,
+                        [item.id]: count,
+                      }))
+                    }
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Totals and a fill gauge per skip */}
+          <div className="space-y-3 text-sm">
+            <div className="flex justify-between rounded-lg bg-gray-50 p-3 font-medium text-gray-900 dark:bg-gray-800 dark:text-white">
+              <span>
+                About{" "}
+                {totals.yards.toLocaleString("en-GB", {
+                  maximumFractionDigits: 1,
+                })}{" "}
+                yd³
+              </span>
+              <span>{formatTonnes(totals.kg)}</span>
+            </div>
+
+            {skips.map((skip, index) => {
+              const fill = assessSkipFill(skip, totals);
+              return (
+                <div
+                  key={skip.id}
+                  className={cn(
+                    "space-y-1 rounded-lg p-2",
+                    index === activeIndex &&
+                      "bg-blue-50 ring-1 ring-blue-300 dark:bg-blue-900/20 dark:ring-blue-700",
+                    skip.forbidden && "opacity-60",
+                  )}
+                >
+                  <div className="flex justify-between text-xs font-medium text-gray-900 dark:text-white">
+                    <span>
+                      {skip.name} ({skip.size} yd)
+                    </span>
+                    {hasItems && (
+                      <span
+                        className={
+                          fill.fits
+                            ? "text-green-600 dark:text-green-400"
+                            : "text-red-600 dark:text-red-400"
+                        }
+                      >
+                        {fill.fits ? "Fits" : "Won't fit"}
+                      </span>
+                    )}
+                  </div>
+                  <FillBar label="Volume" fill={fill.volumeFill} />
+                  <FillBar label="Weight" fill={fill.weightFill} />
+                </div>
+              );
+            })}
+
+            {/* Warnings for the selected skip, with the next size that fits */}
+            {hasItems && activeFill && !activeFill.fits && (
+              <div className="space-y-2 rounded-lg border border-amber-300 bg-amber-50 p-3 text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+                {fillWarnings(activeSkip, activeFill).map((warning) => (
+                  <p key={warning} className="flex items-start">
+                    <AlertTriangle className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+                {suggestedIndex !== null ? (
+                  <button
+                    type="button"
+                    onClick={() => onSelect(suggestedIndex)}
+                    className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+                  >
+                    Switch to the {skips[suggestedIndex].name} (
+                    {skips[suggestedIndex].size} yd)
+                  </button>
+                ) : (
+                  <p>
+                    None of our skips here holds all of it - you may need a
+                    second skip or an exchange.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
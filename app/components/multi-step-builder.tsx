@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
 import { motion } from "motion/react";
 import {
   MapPin,
@@ -12,10 +13,91 @@ import {
   ChevronLeft,
   ChevronRight,
   Check,
+  Loader2,
+  AlertTriangle,
+  PackageX,
+  MapPinOff,
+  Lock,
+  type LucideIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { parsePostcode } from "@/lib/postcode";
+import { addDays, formatDisplayDate } from "@/lib/dates";
+import {
+  isStepValid,
+  validateDateStep,
+  validatePaymentStep,
+  validatePermitStep,
+  validatePostcodeStep,
+  validateSkipStep,
+  validateWasteTypeStep,
+  type StepErrors,
+  type StepValidator,
+} from "@/lib/booking-validation";
+import {
+  getDraftAvailability,
+  getDraftCollection,
+  getDraftQuote,
+} from "@/lib/booking-draft";
+import {
+  getBookingConfirmationPath,
+  getBookingStepPath,
+  getStepSlugFromPath,
+  parseBookingLink,
+  type BookingStepSlug,
+} from "@/lib/booking-link";
+import {
+  collectionOptionLabels,
+  getHireTimeline,
+  getStandardCollectionDate,
+  validateEarlyCollection,
+} from "@/lib/collection";
+import { getEarliestDeliveryDate } from "@/lib/delivery-availability";
+import {
+  clearBookingDraft,
+  loadBookingDraft,
+  saveBookingDraft,
+  type SavedBookingDraft,
+} from "@/lib/draft-storage";
+import {
+  getPermitQuote,
+  getRoadAlternatives,
+  isPlacementAllowed,
+  placementOptions,
+} from "@/lib/permits";
+import { formatPrice, getPriceBreakdownLines } from "@/lib/pricing";
+import { getSkipIndexBySize } from "@/data/skip-data";
+import { wasteTypes } from "@/data/waste-types";
+import { BookingApiError, submitBooking } from "@/lib/booking-api";
+import {
+  completePaymentChallenge,
+  confirmPayment,
+  createPayment,
+  PaymentApiError,
+} from "@/lib/payment-api";
+import {
+  formatCardNumber,
+  getCardBrand,
+  validateCardDetails,
+} from "@/lib/card-validation";
+import type {
+  Booking,
+  CardDetails,
+  CollectionOption,
+  CustomerDetails,
+  PaymentIntent,
+} from "@/types";
+import {
+  BookingDraftProvider,
+  useBookingDraft,
+} from "./booking-draft-provider";
 import { Tabs } from "./tabs";
-import { skipData } from "@/data/skip-data";
+import { SizeRecommender } from "./size-recommender";
+import { ItemCalculator } from "./item-calculator";
+import { DeliveryCalendar } from "./delivery-calendar";
+import { HireTimeline } from "./hire-timeline";
+import { ResumeDraftPrompt } from "./resume-draft-prompt";
+import { PaymentChallengeDialog } from "./payment-challenge-dialog";
 
 /**
  * Multi-Step Skip Hire Booking Flow
@@ -32,48 +114,75 @@ import { skipData } from "@/data/skip-data";
  * - Responsive design (mobile/tablet/desktop)
  * - Auto-scrolling step indicator on mobile/tablet devices
  * - Animated transitions between steps using Framer Motion
- * - State management for user selections across steps
+ * - A shared booking draft (BookingDraftProvider) that every step reads and
+ *   writes, so selections survive moving between steps
+ * - Drafts saved to the browser and offered back after a refresh or return
+ *   visit, with prices re-checked on resume
+ * - A URL per step (/book/<step>), so back/forward move between steps and
+ *   booking links can open a step with the draft prefilled
  * - Glass-morphism design with blue gradient background
  * - Interactive skip selection with detailed specifications
  */
 
+// A step in the booking flow; its validator must pass before moving on
+interface BookingStep {
+  id: number;
+  slug: BookingStepSlug; // URL segment, e.g. /book/select-skip
+  title: string;
+  icon: LucideIcon;
+  component: string;
+  validate: StepValidator;
+}
+
 // Step configuration defining the booking flow sequence
-const steps = [
+const steps: BookingStep[] = [
   {
     id: 1,
+    slug: "postcode",
     title: "Postcode",
     icon: MapPin,
     component: "PostcodeStep",
+    validate: validatePostcodeStep,
   },
   {
     id: 2,
+    slug: "waste-type",
     title: "Waste Type",
     icon: Trash2,
     component: "WasteTypeStep",
+    validate: validateWasteTypeStep,
   },
   {
     id: 3,
+    slug: "select-skip",
     title: "Select Skip",
     icon: Package,
     component: "SelectSkipStep",
+    validate: validateSkipStep,
   },
   {
     id: 4,
+    slug: "permit-check",
     title: "Permit Check",
     icon: FileCheck,
     component: "PermitCheckStep",
+    validate: validatePermitStep,
   },
   {
     id: 5,
+    slug: "choose-date",
     title: "Choose Date",
     icon: Calendar,
     component: "ChooseDateStep",
+    validate: validateDateStep,
   },
   {
     id: 6,
+    slug: "payment",
     title: "Payment",
     icon: CreditCard,
     component: "PaymentStep",
+    validate: validatePaymentStep,
   },
 ];
 
@@ -198,43 +307,115 @@ const StepIndicator = ({ currentStep, totalSteps }: StepIndicatorProps) => {
 /**
  * Individual Step Components
  *
- * Each step component handles a specific part of the booking flow.
+ * Each step component handles a specific part of the booking flow, reading
+ * and updating the shared booking draft through useBookingDraft.
  * All components use consistent responsive design patterns.
  */
 
+// Validation errors a step shows inline (empty until the customer tries to
+// move on)
+interface StepProps {
+  errors: StepErrors;
+}
+
+// Inline validation message for a step
+const FieldError = ({
+  message,
+  className,
+}: {
+  message?: string;
+  className?: string;
+}) =>
+  message ? (
+    <p
+      role="alert"
+      className={cn(
+        "mt-2 flex items-center text-sm text-red-600 dark:text-red-400",
+        className,
+      )}
+    >
+      <AlertTriangle className="mr-1.5 h-4 w-4 flex-shrink-0" />
+      {message}
+    </p>
+  ) : null;
+
 /**
  * PostcodeStep - Step 1: Location Verification
- * Collects user's postcode to check service availability and calculate pricing
+ * Collects user's postcode to check service availability and calculate pricing.
+ * Input is validated against the UK postcode format, normalised on blur and
+ * errors are shown inline once the user has left the field.
  */
-const PostcodeStep = () => (
-  <div className="mx-auto max-w-md px-4 text-center">
-    <h2 className="mb-4 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
-      Enter Your Postcode
-    </h2>
-    <p className="mb-6 text-sm text-gray-600 md:text-base dark:text-gray-400">
-      We need your postcode to check availability and calculate pricing
-    </p>
-    <div className="space-y-4">
-      {/* Postcode input with responsive styling and accessibility */}
-      <input
-        type="text"
-        placeholder="Enter postcode (e.g. NR32 1AB)"
-        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400"
-      />
+const PostcodeStep = ({ errors }: StepProps) => {
+  const { draft, dispatch } = useBookingDraft();
+  const { postcode } = draft;
+  const onPostcodeChange = (value: string) =>
+    dispatch({ type: "setPostcode", postcode: value });
+  // Only show errors after the first blur so typing isn't interrupted
+  const [touched, setTouched] = useState(false);
+  const result = parsePostcode(postcode);
+  const showError = (touched || !!errors.postcode) && !result.valid;
+
+  return (
+    <div className="mx-auto max-w-md px-4 text-center">
+      <h2 className="mb-4 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
+        Enter Your Postcode
+      </h2>
+      <p className="mb-6 text-sm text-gray-600 md:text-base dark:text-gray-400">
+        We need your postcode to check availability and calculate pricing
+      </p>
+      <div className="space-y-2 text-left">
+        {/* Postcode input with responsive styling and accessibility */}
+        <input
+          type="text"
+          value={postcode}
+          onChange={(event) => onPostcodeChange(event.target.value)}
+          onBlur={() => {
+            setTouched(true);
+            // Tidy spacing/case once the postcode is recognised
+            if (result.valid) onPostcodeChange(result.postcode.postcode);
+          }}
+          placeholder="Enter postcode (e.g. NR32 1AB)"
+          autoComplete="postal-code"
+          aria-label="Postcode"
+          aria-invalid={showError}
+          aria-describedby="postcode-feedback"
+          className={cn(
+            "w-full rounded-lg border px-4 py-3 text-gray-900 placeholder-gray-500 focus:ring-2 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400",
+            showError
+              ? "border-red-500 focus:border-red-500 focus:ring-red-500"
+              : "border-gray-300 focus:border-blue-500 focus:ring-blue-500 dark:border-gray-600",
+          )}
+        />
+        {/* Inline validation feedback */}
+        <div id="postcode-feedback" aria-live="polite" className="min-h-5">
+          {showError && !result.valid && (
+            <p className="flex items-center text-sm text-red-600 dark:text-red-400">
+              <AlertTriangle className="mr-1.5 h-4 w-4 flex-shrink-0" />
+              {result.error}
+            </p>
+          )}
+          {result.valid && (
+            <p className="flex items-center text-sm text-green-600 dark:text-green-400">
+              <Check className="mr-1.5 h-4 w-4 flex-shrink-0" />
+              {result.postcode.postcode}
+            </p>
+          )}
+        </div>
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 /**
  * WasteTypeStep - Step 2: Waste Category Selection
  * Allows users to select the type of waste for proper skip recommendation
  * Includes visual selection feedback and responsive grid layout
  */
-const WasteTypeStep = () => {
-  // State to track which waste type is selected
-  const [selectedWasteType, setSelectedWasteType] = useState<string | null>(
-    null,
-  );
+const WasteTypeStep = ({ errors }: StepProps) => {
+  const { draft, dispatch } = useBookingDraft();
+  const { wasteTypeId } = draft;
+  const onWasteTypeChange = (id: string) =>
+    dispatch({ type: "setWasteType", wasteTypeId: id });
 
   return (
     <div className="mx-auto max-w-2xl px-4 text-center">
@@ -246,17 +427,13 @@ const WasteTypeStep = () => {
       </p>
       {/* Responsive grid: single column on mobile, two columns on desktop */}
       <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-        {[
-          "Household Waste",
-          "Garden Waste",
-          "Construction Debris",
-          "Mixed Waste",
-        ].map((type) => {
-          const isSelected = selectedWasteType === type;
+        {wasteTypes.map((type) => {
+          const isSelected = wasteTypeId === type.id;
           return (
             <button
-              key={type}
-              onClick={() => setSelectedWasteType(type)}
+              key={type.id}
+              onClick={() => onWasteTypeChange(type.id)}
+              aria-pressed={isSelected}
               className={cn(
                 "rounded-lg border p-4 text-gray-900 transition-all duration-200 dark:text-white",
                 // Dynamic styling based on selection state
@@ -267,17 +444,21 @@ const WasteTypeStep = () => {
             >
               <span
                 className={cn(
-                  "font-medium",
+                  "block font-medium",
                   // Highlight selected option text
                   isSelected ? "text-blue-700 dark:text-blue-300" : "",
                 )}
               >
-                {type}
+                {type.label}
+              </span>
+              <span className="mt-1 block text-xs text-gray-600 dark:text-gray-400">
+                {type.description}
               </span>
             </button>
           );
         })}
       </div>
+      <FieldError message={errors.wasteType} className="justify-center" />
     </div>
   );
 };
@@ -287,13 +468,156 @@ const WasteTypeStep = () => {
  * The core step where users browse and select skip sizes.
  * Features interactive tabs with detailed skip specifications and pricing.
  * Uses the Tabs component which includes the HybridSkipPanel for skip cards.
+ * Skips are loaded by the builder for the entered postcode; this step shows
+ * the loading, empty and error states.
+ * When a waste type was chosen, unsuitable sizes are hidden (and listed with
+ * the reason) and the recommended size is preselected.
  */
-const SelectSkipStep = () => {
-  // Transform skip data into tab format for the Tabs component
-  const tabs = skipData.map((skip) => ({
-    title: skip.name, // e.g., "Compact", "Standard", "Large"
-    value: skip.id.toString(),
-  }));
+const SelectSkipStep = ({ errors }: StepProps) => {
+  const {
+    dispatch,
+    outwardCode: postcode,
+    skipsState: state,
+    retrySkips: onRetry,
+    wasteType,
+    recommendation,
+    selectedSkip,
+  } = useBookingDraft();
+
+  // Tabs, the recommender and the item calculator select by index
+  const selectSkipAt = (index: number) =>
+    dispatch({ type: "selectSkip", skipId: recommendation.skips[index].id });
+
+  // Render the skip catalogue or the appropriate fallback state
+  const renderSkips = () => {
+    if (state.status === "loading") {
+      return (
+        <div className="flex w-full flex-col items-center justify-center py-16 text-gray-600 dark:text-gray-400">
+          <Loader2 className="mb-3 h-8 w-8 animate-spin text-blue-600" />
+          <span className="text-sm md:text-base">Loading available skips…</span>
+        </div>
+      );
+    }
+
+    if (state.status === "error") {
+      return (
+        <div className="mx-auto flex max-w-md flex-col items-center justify-center py-16 text-center">
+          <AlertTriangle className="mb-3 h-8 w-8 text-amber-500" />
+          <p className="mb-4 text-sm text-gray-700 md:text-base dark:text-gray-300">
+            {state.error}
+          </p>
+          <button
+            onClick={onRetry}
+            className="rounded-lg bg-blue-600 px-6 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+          >
+            Try again
+          </button>
+        </div>
+      );
+    }
+
+    if (state.status === "not-served") {
+      return (
+        <div className="mx-auto flex max-w-md flex-col items-center justify-center py-16 text-center">
+          <MapPinOff className="mb-3 h-8 w-8 text-gray-400" />
+          <p className="mb-2 text-sm font-medium text-gray-900 md:text-base dark:text-white">
+            {state.error}
+          </p>
+          <p className="text-xs text-gray-600 md:text-sm dark:text-gray-400">
+            Please check the postcode or contact us to arrange a collection.
+          </p>
+        </div>
+      );
+    }
+
+    if (state.skips.length === 0) {
+      return (
+        <div className="mx-auto flex max-w-md flex-col items-center justify-center py-16 text-center">
+          <PackageX className="mb-3 h-8 w-8 text-gray-400" />
+          <p className="text-sm text-gray-700 md:text-base dark:text-gray-300">
+            No skips are currently available for {postcode.toUpperCase()}.
+          </p>
+        </div>
+      );
+    }
+
+    if (recommendation.skips.length === 0) {
+      return (
+        <div className="mx-auto flex max-w-md flex-col items-center justify-center py-16 text-center">
+          <PackageX className="mb-3 h-8 w-8 text-gray-400" />
+          <p className="text-sm text-gray-700 md:text-base dark:text-gray-300">
+            None of the skips available in {postcode.toUpperCase()} can take{" "}
+            {wasteType?.label.toLowerCase()}. Please choose a different waste
+            type or contact us for a grab lorry or wait &amp; load service.
+          </p>
+        </div>
+      );
+    }
+
+    // Skip shown in the tabs (the draft provider resolves the default)
+    const activeIndex = Math.max(
+      0,
+      recommendation.skips.findIndex((skip) => skip.id === selectedSkip?.id),
+    );
+
+    // Transform skip data into tab format for the Tabs component
+    const tabs = recommendation.skips.map((skip) => ({
+      title: skip.name, // e.g., "Compact", "Standard", "Large"
+      value: skip.id.toString(),
+      unavailable: skip.forbidden, // Shown, but can't be booked online
+    }));
+
+    // Show the customer's district, noting when area or regional prices apply
+    const { outwardCode, match, pricePostcode, region } = state.catalogue;
+    const locationLabel =
+      match === "district"
+        ? outwardCode
+        : match === "area"
+          ? `${outwardCode} · ${pricePostcode} area pricing`
+          : `${outwardCode} · ${region ?? pricePostcode} pricing`;
+
+    return (
+      <>
+        {/* Notice when some supplier records failed validation */}
+        {state.quarantinedCount > 0 && (
+          <p className="mb-4 w-full text-center text-xs text-amber-700 md:text-sm dark:text-amber-400">
+            Some skip sizes are temporarily unavailable for this postcode.
+          </p>
+        )}
+        {/* Project-based recommender and item calculator jump the tabs to a size */}
+        <SizeRecommender skips={recommendation.skips} onSelect={selectSkipAt} />
+        <ItemCalculator
+          skips={recommendation.skips}
+          activeIndex={activeIndex}
+          onSelect={selectSkipAt}
+        />
+        <Tabs
+          tabs={tabs}
+          selectedIndex={activeIndex}
+          onSelectedIndexChange={selectSkipAt}
+          skips={recommendation.skips}
+          wasteFits={recommendation.fits}
+          locationLabel={locationLabel}
+        />
+        {/* Sizes hidden because they can't take the chosen waste type */}
+        {recommendation.excluded.length > 0 && (
+          <div className="mt-6 w-full rounded-lg border border-gray-200 bg-gray-50 p-3 text-left md:p-4 dark:border-gray-700 dark:bg-gray-800/50">
+            <p className="mb-2 text-sm font-medium text-gray-900 dark:text-white">
+              Not shown for {wasteType?.label.toLowerCase()}
+            </p>
+            <ul className="space-y-1 text-xs text-gray-600 md:text-sm dark:text-gray-400">
+              {recommendation.excluded.map(({ skip, fit }) => (
+                <li key={skip.id}>
+                  <span className="font-medium">{skip.name}</span> ({skip.size}{" "}
+                  yd): {fit.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </>
+    );
+  };
 
   return (
     <div className="w-full">
@@ -305,19 +629,41 @@ const SelectSkipStep = () => {
         <p className="text-sm text-gray-600 md:text-base dark:text-gray-400">
           Select the skip size that best suits your needs
         </p>
+        <FieldError message={errors.skip} className="justify-center" />
       </div>
 
       {/* Container for the interactive skip selection tabs and cards */}
       {/* Progressive heights: mobile 45rem → desktop 50rem → large 55rem */}
       <div className="relative mx-auto mb-6 flex min-h-[45rem] w-full max-w-5xl flex-col items-start justify-start px-4 [perspective:1000px] md:mb-8 md:min-h-[50rem] lg:min-h-[55rem]">
-        <Tabs tabs={tabs} />
+        {renderSkips()}
       </div>
     </div>
   );
 };
 
-const PermitCheckStep = () => {
-  const [selectedPermit, setSelectedPermit] = useState<string | null>(null);
+/**
+ * PermitCheckStep - Step 4: Placement and Permits
+ * Asks where the skip will stand and checks it against the selected skip.
+ * Road placement of a private-land-only skip is blocked with an explanation
+ * and the sizes that can go on the road; allowed road placement quotes the
+ * local council's permit (fee, notice and maximum duration), which is added
+ * to the order.
+ */
+const PermitCheckStep = ({ errors }: StepProps) => {
+  const {
+    draft,
+    dispatch,
+    outwardCode: postcode, // Used to find the council
+    recommendation,
+    selectedSkip: skip,
+  } = useBookingDraft();
+  const { hireDays, placement } = draft;
+  const skips = recommendation.skips; // Skips on offer, for alternative sizes
+
+  const blocked =
+    skip !== null && placement !== null && !isPlacementAllowed(skip, placement);
+  const alternatives = blocked ? getRoadAlternatives(skips) : [];
+  const permit = getPermitQuote(postcode, hireDays);
 
   return (
     <div className="mx-auto max-w-2xl px-4 text-center">
@@ -328,97 +674,485 @@ const PermitCheckStep = () => {
         Where will the skip be placed?
       </p>
       <div className="space-y-4">
-        {["On my private property/driveway", "On the road/public highway"].map(
-          (option) => {
-            const isSelected = selectedPermit === option;
-            return (
-              <button
-                key={option}
-                onClick={() => setSelectedPermit(option)}
+        {placementOptions.map((option) => {
+          const isSelected = placement === option.value;
+          return (
+            <button
+              key={option.value}
+              onClick={() =>
+                dispatch({ type: "setPlacement", placement: option.value })
+              }
+              aria-pressed={isSelected}
+              className={cn(
+                "w-full rounded-lg border p-4 text-left text-gray-900 transition-all duration-200 dark:text-white",
+                isSelected
+                  ? "ring-opacity-50 border-blue-500 bg-blue-50 ring-2 ring-blue-500 dark:bg-blue-900/30"
+                  : "border-gray-300 hover:border-blue-500 hover:bg-blue-50 dark:border-gray-600 dark:hover:bg-blue-900/20",
+              )}
+            >
+              <span
                 className={cn(
-                  "w-full rounded-lg border p-4 text-left text-gray-900 transition-all duration-200 dark:text-white",
-                  isSelected
-                    ? "ring-opacity-50 border-blue-500 bg-blue-50 ring-2 ring-blue-500 dark:bg-blue-900/30"
-                    : "border-gray-300 hover:border-blue-500 hover:bg-blue-50 dark:border-gray-600 dark:hover:bg-blue-900/20",
+                  "font-medium",
+                  isSelected ? "text-blue-700 dark:text-blue-300" : "",
                 )}
               >
-                <span
+                {option.label}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {/* Blocked and over-length road placements are explained below */}
+      {!placement && (
+        <FieldError message={errors.placement} className="justify-center" />
+      )}
+
+      {/* Road placement needs a permit, or a skip that's allowed on the road */}
+      {blocked && skip && (
+        <div className="mt-6 space-y-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-left text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+          <p className="flex items-start">
+            <AlertTriangle className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+            The {skip.name} ({skip.size} yd) can only be placed on private land,
+            so it can't go on the road. Choose a driveway or private area, or
+            switch to a size that&apos;s allowed on the road.
+          </p>
+          {alternatives.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {alternatives.map((alternative) => (
+                <button
+                  key={alternative.id}
+                  onClick={() =>
+                    dispatch({ type: "selectSkip", skipId: alternative.id })
+                  }
+                  className="rounded-lg border border-amber-400 bg-white px-3 py-1.5 text-sm font-medium text-gray-900 transition-colors hover:border-blue-500 dark:bg-gray-800 dark:text-white"
+                >
+                  Switch to {alternative.name} ({alternative.size} yd)
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p>None of the skips available here can be placed on the road.</p>
+          )}
+        </div>
+      )}
+      {placement === "road" && !blocked && permit.withinMaxDuration && (
+        <div className="mt-6 space-y-1 text-sm text-gray-600 dark:text-gray-400">
+          <p>
+            We&apos;ll arrange the road permit with{" "}
+            {permit.councilName ?? "your council"}. A {formatPrice(permit.fee)}{" "}
+            permit fee for your {hireDays}-day hire is added to your order.
+          </p>
+          <p>
+            The council needs {permit.noticeDays} days&apos; notice, so the
+            earliest delivery date moves back accordingly.
+          </p>
+        </div>
+      )}
+      {placement === "road" && !blocked && !permit.withinMaxDuration && (
+        <p className="mt-6 flex items-start rounded-lg border border-amber-300 bg-amber-50 p-4 text-left text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+          <AlertTriangle className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+          {permit.councilName ?? "Your council"} issues road permits for up to{" "}
+          {permit.maxDays} days. Choose a hire period of {permit.maxDays} days
+          or less, or place the skip on private land.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * ChooseDateStep - Step 5: Delivery and Collection Scheduling
+ * Picks a delivery day and AM/PM slot from the availability calendar, then
+ * how the skip is collected: at the end of the hire chosen on the skip card,
+ * early on a requested date, or wait and load.
+ */
+const ChooseDateStep = ({ errors }: StepProps) => {
+  const { draft, dispatch, selectedSkip } = useBookingDraft();
+  const {
+    deliveryDate,
+    deliverySlot,
+    hireDays,
+    collectionOption,
+    earlyCollectionDate,
+  } = draft;
+  // Lead time and permit notice
+  const availability = getDraftAvailability(draft, selectedSkip);
+  const onCollectionChange = (option: CollectionOption, earlyDate: string) =>
+    dispatch({ type: "setCollection", option, earlyDate });
+
+  return (
+    <div className="mx-auto max-w-md px-4 text-center">
+      <h2 className="mb-4 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
+        Choose Delivery Date
+      </h2>
+      <p className="mb-6 text-sm text-gray-600 md:text-base dark:text-gray-400">
+        When would you like your skip delivered?
+      </p>
+      <div className="space-y-4">
+        <DeliveryCalendar
+          options={availability}
+          date={deliveryDate}
+          slot={deliverySlot}
+          onChange={(date, slot) =>
+            dispatch({ type: "setDelivery", date, slot })
+          }
+        />
+        <FieldError message={errors.delivery} className="justify-center" />
+        {/* Road permits need notice, which moves the earliest date back */}
+        {!!availability.noticeDays && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Your council needs {availability.noticeDays} days&apos; notice for
+            the road permit, so the earliest delivery is{" "}
+            {formatDisplayDate(getEarliestDeliveryDate(availability))}.
+          </p>
+        )}
+        {/* Collection: end of hire (next working day), early, or wait and load */}
+        {deliveryDate && (
+          <fieldset className="space-y-2 border-t border-gray-200 pt-4 text-left dark:border-gray-700">
+            <legend className="mb-2 text-sm font-medium text-gray-900 dark:text-white">
+              Collection
+            </legend>
+            {(Object.keys(collectionOptionLabels) as CollectionOption[]).map(
+              (option) => (
+                <label
+                  key={option}
                   className={cn(
-                    "font-medium",
-                    isSelected ? "text-blue-700 dark:text-blue-300" : "",
+                    "flex cursor-pointer items-start rounded-lg border p-3 text-sm transition-colors",
+                    collectionOption === option
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                      : "border-gray-300 hover:border-blue-500 dark:border-gray-600",
                   )}
                 >
-                  {option}
-                </span>
-              </button>
-            );
-          },
+                  <input
+                    type="radio"
+                    name="collection"
+                    checked={collectionOption === option}
+                    onChange={() =>
+                      onCollectionChange(option, earlyCollectionDate)
+                    }
+                    className="mt-0.5 mr-3"
+                  />
+                  <span>
+                    <span className="block font-medium text-gray-900 dark:text-white">
+                      {collectionOptionLabels[option]}
+                    </span>
+                    <span className="block text-gray-600 dark:text-gray-400">
+                      {option === "standard" &&
+                        `${formatDisplayDate(getStandardCollectionDate(deliveryDate, hireDays))} (${hireDays}-day hire)`}
+                      {option === "early" &&
+                        "Finished sooner? Pick a day and we'll collect then"}
+                      {option === "wait-and-load" &&
+                        "The driver waits while you load, then takes it away"}
+                    </span>
+                  </span>
+                </label>
+              ),
+            )}
+            {collectionOption === "early" && (
+              <div className="space-y-1">
+                <input
+                  type="date"
+                  aria-label="Early collection date"
+                  value={earlyCollectionDate}
+                  min={addDays(deliveryDate, 1)}
+                  max={addDays(
+                    getStandardCollectionDate(deliveryDate, hireDays),
+                    -1,
+                  )}
+                  onChange={(event) =>
+                    onCollectionChange("early", event.target.value)
+                  }
+                  className="w-full rounded-lg border border-gray-300 px-4 py-2 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+                />
+                {/* Checked as soon as a date is picked */}
+                <FieldError
+                  message={
+                    errors.collection ??
+                    (earlyCollectionDate
+                      ? (validateEarlyCollection(
+                          deliveryDate,
+                          hireDays,
+                          earlyCollectionDate,
+                        ) ?? undefined)
+                      : undefined)
+                  }
+                  className="mt-0"
+                />
+              </div>
+            )}
+          </fieldset>
         )}
       </div>
     </div>
   );
 };
 
-const ChooseDateStep = () => (
-  <div className="mx-auto max-w-md px-4 text-center">
-    <h2 className="mb-4 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
-      Choose Delivery Date
-    </h2>
-    <p className="mb-6 text-sm text-gray-600 md:text-base dark:text-gray-400">
-      When would you like your skip delivered?
-    </p>
-    <div className="space-y-4">
+/**
+ * PaymentStep - Step 6: Customer Details & Payment
+ * Summarises the order and the hire timeline before collecting customer
+ * and card details. Completing the booking re-checks every step first,
+ * places it with the server, which prices it again, then takes payment.
+ * Card details stay out of the draft so they're never saved on the device.
+ */
+interface PaymentStepProps extends StepProps {
+  onComplete: () => void;
+  submitting: boolean; // Booking or payment request in flight
+  submitError: string | null; // Why the last attempt failed
+  card: CardDetails;
+  onCardChange: (details: Partial<CardDetails>) => void;
+  cardErrors: StepErrors; // Shown once the customer tries to pay
+}
+
+// Border and focus colours for a text field, red when it has an error
+const fieldClassName = (invalid: boolean) =>
+  cn(
+    "w-full rounded-lg border px-4 py-3 text-gray-900 placeholder-gray-500 focus:ring-2 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400",
+    invalid
+      ? "border-red-500 focus:border-red-500 focus:ring-red-500"
+      : "border-gray-300 focus:border-blue-500 focus:ring-blue-500 dark:border-gray-600",
+  );
+
+const emptyCard: CardDetails = { number: "", expiry: "", cvc: "" };
+
+interface CustomerField {
+  field: keyof CustomerDetails;
+  type: string;
+  placeholder: string;
+  autoComplete: string;
+}
+
+// Contact fields collected at payment
+const customerFields: CustomerField[] = [
+  {
+    field: "name",
+    type: "text",
+    placeholder: "Full Name",
+    autoComplete: "name",
+  },
+  {
+    field: "email",
+    type: "email",
+    placeholder: "Email Address",
+    autoComplete: "email",
+  },
+  {
+    field: "phone",
+    type: "tel",
+    placeholder: "Phone Number",
+    autoComplete: "tel",
+  },
+];
+
+// Where the skip goes; the postcode was given in the first step
+const siteAddressFields: CustomerField[] = [
+  {
+    field: "addressLine1",
+    type: "text",
+    placeholder: "Address Line 1",
+    autoComplete: "address-line1",
+  },
+  {
+    field: "addressLine2",
+    type: "text",
+    placeholder: "Address Line 2 (optional)",
+    autoComplete: "address-line2",
+  },
+  {
+    field: "town",
+    type: "text",
+    placeholder: "Town or City",
+    autoComplete: "address-level2",
+  },
+];
+
+const PaymentStep = ({
+  errors,
+  onComplete,
+  submitting,
+  submitError,
+  card,
+  onCardChange,
+  cardErrors,
+}: PaymentStepProps) => {
+  const { draft, dispatch, selectedSkip: skip } = useBookingDraft();
+  const { postcode, placement, hireDays, deliverySlot, customer } = draft;
+  // Itemised price, including the road permit where one is needed
+  const quote = skip ? getDraftQuote(draft, skip) : null;
+  // Delivery, hire, permit and collection dates
+  const timeline = getHireTimeline({
+    ...getDraftCollection(draft),
+    deliverySlot,
+    placement,
+  });
+
+  const renderCustomerField = ({ field, ...input }: CustomerField) => (
+    <div key={field} className="text-left">
       <input
-        type="date"
-        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+        {...input}
+        value={customer[field]}
+        onChange={(event) =>
+          dispatch({
+            type: "updateCustomer",
+            details: { [field]: event.target.value },
+          })
+        }
+        aria-invalid={!!errors[field]}
+        className={fieldClassName(!!errors[field])}
       />
+      <FieldError message={errors[field]} />
     </div>
-  </div>
-);
+  );
 
-const PaymentStep = () => (
-  <div className="mx-auto max-w-md px-4 text-center">
-    <h2 className="mb-4 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
-      Payment Details
-    </h2>
-    <p className="mb-6 text-sm text-gray-600 md:text-base dark:text-gray-400">
-      Complete your skip hire booking
-    </p>
-    <div className="space-y-4">
-      <input
-        type="text"
-        placeholder="Full Name"
-        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400"
-      />
-      <input
-        type="email"
-        placeholder="Email Address"
-        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400"
-      />
-      <input
-        type="tel"
-        placeholder="Phone Number"
-        className="w-full rounded-lg border border-gray-300 px-4 py-3 text-gray-900 placeholder-gray-500 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white dark:placeholder-gray-400"
-      />
-      <button className="w-full rounded-lg bg-green-600 px-6 py-3 font-medium text-white transition-colors hover:bg-green-700">
-        Complete Booking
-      </button>
+  return (
+    <div className="mx-auto max-w-md px-4 text-center">
+      <h2 className="mb-4 text-xl font-bold text-gray-900 md:text-2xl dark:text-white">
+        Payment Details
+      </h2>
+      <p className="mb-6 text-sm text-gray-600 md:text-base dark:text-gray-400">
+        Complete your skip hire booking
+      </p>
+      {/* Booking summary */}
+      <dl className="mb-6 space-y-2 rounded-lg bg-gray-50 p-4 text-left text-sm dark:bg-gray-800">
+        {skip && (
+          <div className="flex justify-between">
+            <dt className="text-gray-600 dark:text-gray-400">Skip</dt>
+            <dd className="font-medium text-gray-900 dark:text-white">
+              {skip.name} ({skip.size} yd)
+            </dd>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <dt className="text-gray-600 dark:text-gray-400">Hire period</dt>
+          <dd className="font-medium text-gray-900 dark:text-white">
+            {hireDays} days
+          </dd>
+        </div>
+        {/* Itemised order, including the road permit where one is needed */}
+        {quote &&
+          getPriceBreakdownLines(quote).map((line) => (
+            <div key={line.label} className="flex justify-between">
+              <dt className="text-gray-600 dark:text-gray-400">{line.label}</dt>
+              <dd className="font-medium text-gray-900 dark:text-white">
+                {formatPrice(line.amount)}
+              </dd>
+            </div>
+          ))}
+        {quote && (
+          <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold text-gray-900 dark:border-gray-700 dark:text-white">
+            <dt>Total</dt>
+            <dd>{formatPrice(quote.total)}</dd>
+          </div>
+        )}
+      </dl>
+      {/* When the skip arrives, how long it stays and when it goes */}
+      {timeline.length > 0 && (
+        <div className="mb-6 rounded-lg bg-gray-50 p-4 dark:bg-gray-800">
+          <h3 className="mb-3 text-left text-sm font-semibold text-gray-900 dark:text-white">
+            Your hire timeline
+          </h3>
+          <HireTimeline events={timeline} />
+        </div>
+      )}
+      <div className="space-y-4">
+        {customerFields.map(renderCustomerField)}
+        {/* Delivery address, for the driver and the calendar events */}
+        <fieldset className="space-y-4 pt-2 text-left">
+          <legend className="mb-3 flex items-center text-sm font-semibold text-gray-900 dark:text-white">
+            <MapPin className="mr-1.5 h-4 w-4 text-gray-500" />
+            Delivery address
+          </legend>
+          {siteAddressFields.map(renderCustomerField)}
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Postcode: {postcode}
+          </p>
+        </fieldset>
+        {/* Card details, checked here before they're sent */}
+        <fieldset className="space-y-4 pt-2 text-left">
+          <legend className="mb-3 flex items-center text-sm font-semibold text-gray-900 dark:text-white">
+            <Lock className="mr-1.5 h-4 w-4 text-gray-500" />
+            Card details
+          </legend>
+          <div>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="cc-number"
+              placeholder="Card Number"
+              value={card.number}
+              onChange={(event) =>
+                onCardChange({ number: formatCardNumber(event.target.value) })
+              }
+              aria-invalid={!!cardErrors.number}
+              className={fieldClassName(!!cardErrors.number)}
+            />
+            <FieldError message={cardErrors.number} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="cc-exp"
+                placeholder="MM/YY"
+                maxLength={7}
+                value={card.expiry}
+                onChange={(event) =>
+                  onCardChange({ expiry: event.target.value })
+                }
+                aria-invalid={!!cardErrors.expiry}
+                className={fieldClassName(!!cardErrors.expiry)}
+              />
+              <FieldError message={cardErrors.expiry} />
+            </div>
+            <div>
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="cc-csc"
+                placeholder={
+                  getCardBrand(card.number) === "amex" ? "CID" : "CVC"
+                }
+                maxLength={4}
+                value={card.cvc}
+                onChange={(event) => onCardChange({ cvc: event.target.value })}
+                aria-invalid={!!cardErrors.cvc}
+                className={fieldClassName(!!cardErrors.cvc)}
+              />
+              <FieldError message={cardErrors.cvc} />
+            </div>
+          </div>
+        </fieldset>
+        <button
+          onClick={onComplete}
+          disabled={submitting}
+          className="flex w-full items-center justify-center rounded-lg bg-green-600 px-6 py-3 font-medium text-white transition-colors hover:bg-green-700 disabled:cursor-wait disabled:opacity-75"
+        >
+          {submitting && <Loader2 className="mr-2 h-5 w-5 animate-spin" />}
+          {submitting
+            ? "Processing payment..."
+            : quote
+              ? `Pay ${formatPrice(quote.total)}`
+              : "Complete Booking"}
+        </button>
+        <FieldError message={submitError ?? undefined} className="text-left" />
+      </div>
     </div>
-  </div>
-);
+  );
+};
 
 /**
  * Navigation Component
  *
  * Provides Previous/Next navigation between steps with disabled states.
- * Includes step counter and responsive spacing.
+ * Next stays clickable while disabled so the step can show why it can't
+ * continue. Includes step counter and responsive spacing.
  */
 interface NavigationProps {
   currentStep: number;
   totalSteps: number;
   onPrevious: () => void;
   onNext: () => void;
-  canGoNext: boolean; // Controls if Next button is enabled
+  canGoNext: boolean; // Whether the current step's validator passes
 }
 
 const Navigation = ({
@@ -451,7 +1185,7 @@ const Navigation = ({
     {currentStep < totalSteps ? (
       <button
         onClick={onNext}
-        disabled={!canGoNext}
+        aria-disabled={!canGoNext}
         className={cn(
           "flex items-center space-x-2 rounded-lg px-4 py-2 text-sm font-medium transition-colors md:px-6 md:py-3 md:text-base",
           canGoNext
@@ -469,34 +1203,288 @@ const Navigation = ({
 );
 
 /**
- * Main Multi-Step Builder Component
- *
- * The root component that orchestrates the entire booking flow.
- * Manages global state for current step and navigation logic.
+ * BookingFlow Component
  *
- * Features:
- * - Step navigation with validation
- * - Responsive layout with blue gradient background
- * - Glass-morphism design for the main content card
- * - Smooth animations between steps
+ * Steps through the booking with the current step's content and navigation.
+ * Everything the customer chooses lives in the booking draft; the current
+ * step comes from the URL (/book/<step>, or the first step elsewhere).
+ * Steps change through the browser history, which keeps the flow mounted,
+ * so back and forward move between steps without losing the draft.
  */
-export const MultiStepBuilder = () => {
-  // Global state for tracking current step (1-indexed)
-  const [currentStep, setCurrentStep] = useState(1);
-  // Controls whether user can proceed to next step (for validation)
-  const [canGoNext, setCanGoNext] = useState(true);
+const BookingFlow = () => {
+  // Current step (1-indexed), from the URL
+  const pathname = usePathname();
+  const router = useRouter();
+  const currentStep =
+    steps.find((step) => step.slug === getStepSlugFromPath(pathname))?.id ?? 1;
+  // Step whose inline errors are showing, once the customer tries to leave it
+  const [errorsStep, setErrorsStep] = useState<number | null>(null);
+  const {
+    draft,
+    dispatch,
+    outwardCode,
+    skipsState,
+    retrySkips,
+    recommendation,
+    selectedSkip,
+  } = useBookingDraft();
+
+  // A draft saved on this device, waiting for the customer to continue it or
+  // start again; nothing is saved until that's decided
+  const [savedDraft, setSavedDraft] = useState<SavedBookingDraft | null>(null);
+  const [savedDraftChecked, setSavedDraftChecked] = useState(false);
+  // Price shown before the customer left, re-checked once skips reload
+  const [resumedQuote, setResumedQuote] =
+    useState<SavedBookingDraft["quote"]>(null);
+  const [priceNotice, setPriceNotice] = useState<string | null>(null);
+  // Skip size from a booking link, selected once the postcode's skips load
+  const [linkedSize, setLinkedSize] = useState<number | null>(null);
+  // Placing the booking: the request in flight and why it failed
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  // Sent with every attempt at the same booking, so a double click or a
+  // retry after a declined card can't book twice; replaced once the booking
+  // is paid for, rejected or changed
+  const idempotencyKeyRef = useRef<string | null>(null);
+  // Card details (kept out of the draft) and whether to show their errors
+  const [card, setCard] = useState<CardDetails>(emptyCard);
+  const [showCardErrors, setShowCardErrors] = useState(false);
+  // Payment waiting for the customer to authenticate with their bank
+  const [challenge, setChallenge] = useState<{
+    booking: Booking;
+    intent: PaymentIntent;
+  } | null>(null);
+
+  // A changed draft is a different booking
+  useEffect(() => {
+    idempotencyKeyRef.current = null;
+  }, [draft]);
+
+  // Move to a step, adding a history entry unless replacing the current one
+  const goToStep = (step: number, mode: "push" | "replace" = "push") => {
+    const path = getBookingStepPath(steps[step - 1].slug);
+    if (mode === "push") window.history.pushState(null, "", path);
+    else window.history.replaceState(null, "", path);
+  };
+
+  // On load, prefill from a booking link, or else look for a saved draft
+  // (localStorage is browser-only). Steps past the waste type need a postcode
+  // to show anything, so without one the flow starts at the beginning
+  useEffect(() => {
+    const link = parseBookingLink(window.location.search);
+    if (link.postcode) {
+      dispatch({ type: "setPostcode", postcode: link.postcode });
+      if (link.wasteTypeId) {
+        dispatch({ type: "setWasteType", wasteTypeId: link.wasteTypeId });
+      }
+      if (link.size) setLinkedSize(link.size);
+    } else {
+      const saved = loadBookingDraft();
+      if (saved && (saved.step > 1 || saved.draft.postcode)) {
+        setSavedDraft(saved);
+      }
+      if (currentStep > 2) goToStep(1, "replace");
+    }
+    setSavedDraftChecked(true);
+    // Runs once for the URL the flow was opened with
+  }, []);
 
-  // Navigate to next step with boundary checking
+  // Preselect the linked size (or the closest fallback) for the postcode
+  useEffect(() => {
+    if (linkedSize === null || skipsState.status === "loading") return;
+    setLinkedSize(null);
+    if (recommendation.skips.length === 0) return;
+    const index = getSkipIndexBySize(recommendation.skips, linkedSize);
+    dispatch({ type: "selectSkip", skipId: recommendation.skips[index].id });
+  }, [linkedSize, skipsState, recommendation, dispatch]);
+
+  // Save progress as the customer goes
+  useEffect(() => {
+    if (!savedDraftChecked || savedDraft) return;
+    if (currentStep === 1 && !draft.postcode) return;
+    saveBookingDraft({
+      step: currentStep,
+      draft,
+      quote: selectedSkip
+        ? {
+            skipId: selectedSkip.id,
+            total: getDraftQuote(draft, selectedSkip).total,
+          }
+        : null,
+    });
+  }, [savedDraftChecked, savedDraft, currentStep, draft, selectedSkip]);
+
+  // On resume, compare the saved price with the current catalogue once the
+  // resumed postcode's skips have loaded
+  useEffect(() => {
+    if (!resumedQuote || skipsState.status === "loading") return;
+    if (
+      skipsState.status === "success" &&
+      skipsState.catalogue.outwardCode !== outwardCode
+    ) {
+      return;
+    }
+    setResumedQuote(null);
+    if (skipsState.status !== "success") return;
+
+    const skip = recommendation.skips.find(
+      (item) => item.id === resumedQuote.skipId,
+    );
+    if (!skip) {
+      setPriceNotice(
+        "The skip you chose is no longer available for your postcode. Please choose another size.",
+      );
+      if (currentStep > 3) goToStep(3, "replace");
+      return;
+    }
+    const total = getDraftQuote(draft, skip).total;
+    if (total !== resumedQuote.total) {
+      setPriceNotice(
+        `Prices have changed since you started: your ${skip.name} skip now comes to ${formatPrice(total)} (was ${formatPrice(resumedQuote.total)}).`,
+      );
+    }
+  }, [resumedQuote, skipsState, outwardCode, recommendation, draft]);
+
+  // Restore the saved draft and return to its step
+  const handleContinue = () => {
+    if (!savedDraft) return;
+    dispatch({ type: "restore", draft: savedDraft.draft });
+    goToStep(Math.min(Math.max(savedDraft.step, 1), steps.length));
+    setResumedQuote(savedDraft.quote);
+    setSavedDraft(null);
+  };
+
+  const handleStartAgain = () => {
+    clearBookingDraft();
+    setSavedDraft(null);
+  };
+
+  // The current step's validator gates the Next button
+  const stepErrors = steps[currentStep - 1].validate({ draft, selectedSkip });
+  const canGoNext = isStepValid(stepErrors);
+  const errors = errorsStep === currentStep ? stepErrors : {};
+
+  // Navigate to next step with boundary checking, or show what's missing
   const handleNext = () => {
+    if (!canGoNext) {
+      setErrorsStep(currentStep);
+      return;
+    }
     if (currentStep < steps.length) {
-      setCurrentStep(currentStep + 1);
+      goToStep(currentStep + 1);
     }
   };
 
   // Navigate to previous step with boundary checking
   const handlePrevious = () => {
     if (currentStep > 1) {
-      setCurrentStep(currentStep - 1);
+      goToStep(currentStep - 1);
+    }
+  };
+
+  // Final guard: re-check every step, since earlier choices can go stale
+  // (e.g. a delivery slot that's since passed), and reopen the first one
+  // that fails with its errors showing. Then place the booking at the price
+  // the customer was shown
+  const handleComplete = async () => {
+    if (submitting) return;
+    const invalidStep = steps.find(
+      (step) => !isStepValid(step.validate({ draft, selectedSkip })),
+    );
+    if (invalidStep || !selectedSkip) {
+      const stepId = invalidStep?.id ?? 3;
+      goToStep(stepId);
+      setErrorsStep(stepId);
+      return;
+    }
+
+    if (!isStepValid(validateCardDetails(card))) {
+      setShowCardErrors(true);
+      return;
+    }
+
+    idempotencyKeyRef.current ??= crypto.randomUUID();
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const placed = await submitBooking(
+        { ...draft, skipId: selectedSkip.id },
+        getDraftQuote(draft, selectedSkip).total,
+        idempotencyKeyRef.current,
+      );
+      // Already paid on an earlier attempt whose response was lost
+      if (placed.paymentStatus === "paid") {
+        finishBooking(placed);
+        return;
+      }
+      const intent = await createPayment(placed.reference);
+      handlePaymentResult(placed, await confirmPayment(intent.id, card));
+    } catch (error) {
+      if (error instanceof PaymentApiError) {
+        setSubmitError(
+          [error.message, ...Object.values(error.errors)].join(". "),
+        );
+        return;
+      }
+      const apiError =
+        error instanceof BookingApiError
+          ? error
+          : new BookingApiError(String(error));
+      if (apiError.isFinal) idempotencyKeyRef.current = null;
+      // A changed price or withdrawn skip: reload skips so the summary
+      // shows what the booking costs now
+      if (apiError.status === 409) retrySkips();
+      setSubmitError(
+        apiError.total !== undefined
+          ? `${apiError.message} (now ${formatPrice(apiError.total)}).`
+          : [apiError.message, ...Object.values(apiError.errors)].join(". "),
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // The booking is paid for, so there's nothing left to resume; show its
+  // confirmation
+  const finishBooking = (placed: Booking) => {
+    idempotencyKeyRef.current = null;
+    clearBookingDraft();
+    setCard(emptyCard);
+    router.push(getBookingConfirmationPath(placed.reference));
+  };
+
+  // Act on where the payment is up to after confirming or authenticating
+  const handlePaymentResult = (placed: Booking, intent: PaymentIntent) => {
+    if (intent.status === "succeeded") {
+      finishBooking(placed);
+    } else if (intent.status === "requires_action") {
+      setChallenge({ booking: placed, intent });
+    } else {
+      setSubmitError(
+        intent.failureReason ??
+          "Your payment didn't go through - please try again",
+      );
+    }
+  };
+
+  // Send the result of the bank's check
+  const handleChallengeComplete = async (authenticated: boolean) => {
+    if (!challenge) return;
+    setSubmitting(true);
+    try {
+      const intent = await completePaymentChallenge(
+        challenge.intent.id,
+        authenticated,
+      );
+      setChallenge(null);
+      handlePaymentResult(challenge.booking, intent);
+    } catch (error) {
+      setChallenge(null);
+      setSubmitError(
+        error instanceof PaymentApiError ? error.message : String(error),
+      );
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -504,19 +1492,31 @@ export const MultiStepBuilder = () => {
   const renderStepContent = () => {
     switch (currentStep) {
       case 1:
-        return <PostcodeStep />;
+        return <PostcodeStep errors={errors} />;
       case 2:
-        return <WasteTypeStep />;
+        return <WasteTypeStep errors={errors} />;
       case 3:
-        return <SelectSkipStep />; // The main skip selection interface
+        // The main skip selection interface
+        return <SelectSkipStep errors={errors} />;
       case 4:
-        return <PermitCheckStep />;
+        return <PermitCheckStep errors={errors} />;
       case 5:
-        return <ChooseDateStep />;
+        return <ChooseDateStep errors={errors} />;
       case 6:
-        return <PaymentStep />;
+        return (
+          <PaymentStep
+            errors={errors}
+            onComplete={handleComplete}
+            submitting={submitting}
+            submitError={submitError}
+            card={card}
+            onCardChange={(details) => setCard({ ...card, ...details })}
+            cardErrors={showCardErrors ? validateCardDetails(card) : {}}
+          />
+        );
       default:
-        return <PostcodeStep />; // Fallback to first step
+        // Fallback to first step
+        return <PostcodeStep errors={errors} />;
     }
   };
 
@@ -524,9 +1524,50 @@ export const MultiStepBuilder = () => {
     /* Main container with responsive blue gradient background */
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 py-6 md:py-12 dark:from-slate-900 dark:via-blue-950 dark:to-indigo-950">
       <div className="container mx-auto max-w-6xl px-4">
+        {/* Offer to resume a booking saved on this device */}
+        {savedDraft && (
+          <ResumeDraftPrompt
+            saved={savedDraft}
+            stepTitle={
+              steps[Math.min(Math.max(savedDraft.step, 1), steps.length) - 1]
+                .title
+            }
+            onContinue={handleContinue}
+            onStartAgain={handleStartAgain}
+          />
+        )}
+
+        {/* The card issuer's 3-D Secure check */}
+        {challenge && (
+          <PaymentChallengeDialog
+            intent={challenge.intent}
+            busy={submitting}
+            onComplete={handleChallengeComplete}
+          />
+        )}
+
         {/* Step progress indicator with auto-scroll functionality */}
         <StepIndicator currentStep={currentStep} totalSteps={steps.length} />
 
+        {/* Prices or availability that changed while the draft was saved */}
+        {priceNotice && (
+          <div
+            role="status"
+            className="mx-auto mb-6 flex max-w-4xl items-start justify-between rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-700 dark:bg-amber-900/20 dark:text-amber-300"
+          >
+            <p className="flex items-start">
+              <AlertTriangle className="mt-0.5 mr-2 h-4 w-4 flex-shrink-0" />
+              {priceNotice}
+            </p>
+            <button
+              onClick={() => setPriceNotice(null)}
+              className="ml-3 font-medium underline"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Main content card with glass-morphism effect and step transitions */}
         <motion.div
           key={currentStep} // Re-animate when step changes
@@ -552,3 +1593,21 @@ export const MultiStepBuilder = () => {
     </div>
   );
 };
+
+/**
+ * Main Multi-Step Builder Component
+ *
+ * The root component that orchestrates the entire booking flow.
+ * Provides the shared booking draft to every step.
+ *
+ * Features:
+ * - Step navigation with validation
+ * - Responsive layout with blue gradient background
+ * - Glass-morphism design for the main content card
+ * - Smooth animations between steps
+ */
+export const MultiStepBuilder = () => (
+  <BookingDraftProvider>
+    <BookingFlow />
+  </BookingDraftProvider>
+);
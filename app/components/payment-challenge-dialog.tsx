@@ -0,0 +1,62 @@
+import { ShieldCheck } from "lucide-react";
+import { formatPrice } from "@/lib/pricing";
+import type { PaymentIntent } from "@/types";
+
+/**
+ * PaymentChallengeDialog Component
+ *
+ * Stands in for the card issuer's 3-D Secure page when a payment needs the
+ * customer to confirm it's them. A real gateway shows its own page or
+ * iframe here; the fake provider just needs to know how the check went.
+ *
+ * @param intent - The payment waiting for authentication
+ * @param busy - Whether the result is being sent
+ * @param onComplete - Called with whether the customer authenticated
+ */
+export const PaymentChallengeDialog = ({
+  intent,
+  busy,
+  onComplete,
+}: {
+  intent: PaymentIntent;
+  busy: boolean;
+  onComplete: (authenticated: boolean) => void;
+}) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="payment-challenge-title"
+      className="w-full max-w-sm rounded-2xl bg-white p-6 text-center shadow-2xl dark:bg-gray-900"
+    >
+      <ShieldCheck className="mx-auto mb-3 h-10 w-10 text-blue-600" />
+      <h2
+        id="payment-challenge-title"
+        className="mb-2 text-lg font-bold text-gray-900 dark:text-white"
+      >
+        Confirm your payment
+      </h2>
+      <p className="mb-6 text-sm text-gray-600 dark:text-gray-400">
+        Your bank wants to check it&apos;s you paying{" "}
+        {formatPrice(intent.amount)}
+        {intent.cardLast4 && ` with the card ending ${intent.cardLast4}`}.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onComplete(false)}
+          disabled={busy}
+          className="flex-1 rounded-lg px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100 disabled:opacity-50 dark:text-gray-300 dark:hover:bg-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onComplete(true)}
+          disabled={busy}
+          className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+        >
+          Confirm
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,65 @@
+import { History } from "lucide-react";
+import type { SavedBookingDraft } from "@/lib/draft-storage";
+
+/**
+ * ResumeDraftPrompt Component
+ *
+ * Offers to continue a booking saved on this device, or to start again
+ * (which discards it).
+ *
+ * @param saved - The saved draft
+ * @param stepTitle - Title of the step the customer was on
+ * @param onContinue - Restores the draft and returns to its step
+ * @param onStartAgain - Discards the draft
+ */
+export const ResumeDraftPrompt = ({
+  saved,
+  stepTitle,
+  onContinue,
+  onStartAgain,
+}: {
+  saved: SavedBookingDraft;
+  stepTitle: string;
+  onContinue: () => void;
+  onStartAgain: () => void;
+}) => (
+  <div
+    role="dialog"
+    aria-labelledby="resume-draft-title"
+    className="mx-auto mb-6 flex max-w-4xl flex-col gap-3 rounded-2xl border border-blue-200 bg-white/90 p-4 shadow-lg md:flex-row md:items-center md:justify-between dark:border-blue-800 dark:bg-gray-900/90"
+  >
+    <div className="flex items-start">
+      <History className="mt-0.5 mr-3 h-5 w-5 flex-shrink-0 text-blue-600" />
+      <div className="text-sm">
+        <p
+          id="resume-draft-title"
+          className="font-medium text-gray-900 dark:text-white"
+        >
+          Continue where you left off?
+        </p>
+        <p className="text-gray-600 dark:text-gray-400">
+          {saved.draft.postcode && `${saved.draft.postcode.toUpperCase()} · `}
+          {stepTitle} · saved{" "}
+          {new Date(saved.savedAt).toLocaleString("en-GB", {
+            dateStyle: "medium",
+            timeStyle: "short",
+          })}
+        </p>
+      </div>
+    </div>
+    <div className="flex gap-2">
+      <button
+        onClick={onStartAgain}
+        className="rounded-lg px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
+      >
+        Start again
+      </button>
+      <button
+        onClick={onContinue}
+        className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+      >
+        Continue
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, Wand2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  recommendSkipSize,
+  type ProjectDetails,
+  type RecommendationConfidence,
+} from "@/lib/size-recommender";
+import { getProjectType, projectTypes } from "@/data/project-types";
+import { itemCatalogue } from "@/data/item-catalogue";
+import type { Skip } from "@/types";
+import { Counter } from "./counter";
+
+// Large items that don't go in bags
+const bulkyItems = itemCatalogue.filter(
+  (item) =>
+    item.category === "furniture" || item.category === "kitchen & bathroom",
+);
+
+// Pill styling per confidence level
+const confidenceStyles: Record<RecommendationConfidence, string> = {
+  high: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+  medium: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  low: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300",
+};
+
+/**
+ * SizeRecommender Component
+ *
+ * A collapsible "help me choose" panel for customers who don't think in cubic
+ * yards. They describe the project (type and size), bagged waste and bulky
+ * items; the panel estimates the volume, picks the smallest skip that holds
+ * it and offers the next size up as a safety option. Choosing either calls
+ * onSelect so the skip tabs jump to that size.
+ *
+ * @param skips - Skips currently listed, in tab order
+ * @param onSelect - Called with the index of the skip to show
+ */
+export const SizeRecommender = ({
+  skips,
+  onSelect,
+}: {
+  skips: Skip[];
+  onSelect: (index: number) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [details, setDetails] = useState<ProjectDetails>({
+    projectTypeId: projectTypes[0].id,
+    units: 1,
+    binBags: 0,
+    bulkyItems: {},
+  });
+
+  const recommendation = recommendSkipSize(skips, details);
+  const projectType = getProjectType(details.projectTypeId);
+
+  const update = (changes: Partial<ProjectDetails>) =>
+    setDetails((current) => ({ ...current, ...changes }));
+
+  return (
+    <div className="mb-4 w-full rounded-lg border border-gray-200 bg-white/70 md:mb-6 md:rounded-xl dark:border-gray-700 dark:bg-gray-800/50">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex w-full items-center justify-between p-3 text-left text-sm font-medium text-gray-900 md:p-4 md:text-base dark:text-white"
+      >
+        <span className="flex items-center">
+          <Wand2 className="mr-2 h-4 w-4 text-blue-600" />
+          Not sure what size? Tell us about your project
+        </span>
+        <ChevronDown
+          className={cn("h-4 w-4 transition-transform", open && "rotate-180")}
+        />
+      </button>
+
+      {open && (
+        <div className="grid gap-4 border-t border-gray-200 p-3 md:grid-cols-2 md:gap-6 md:p-4 dark:border-gray-700">
+          {/* Project answers */}
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              <span className="mb-1 block">Project</span>
+              <select
+                value={details.projectTypeId}
+                onChange={(event) =>
+                  update({ projectTypeId: event.target.value })
+                }
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+              >
+                {projectTypes.map((type) => (
+                  <option key={type.id} value={type.id}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Counter
+              label={`Number of ${projectType?.unitLabel ?? "rooms"}`}
+              value={details.units}
+              onChange={(units) => update({ units })}
+            />
+            <Counter
+              label="Extra bin bags"
+              value={details.binBags}
+              onChange={(binBags) => update({ binBags })}
+            />
+            <div className="space-y-2 border-t border-gray-200 pt-3 dark:border-gray-700">
+              <span className="block text-sm font-medium text-gray-900 dark:text-white">
+                Bulky items
+              </span>
+              {bulkyItems.map((item) => (
+                <Counter
+                  key={item.id}
+                  label={item.label}
+                  value={details.bulkyItems[item.id] ?? 0}
+                  onChange={(count) =>
+                    update({
+                      bulkyItems: { ...details.bulkyItems, [item.id]: count },
+                    })
+                  }
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Recommendation with confidence and a safer option */}
+          <div className="rounded-lg bg-gray-50 p-3 text-sm md:p-4 dark:bg-gray-800">
+            {recommendation ? (
+              <>
+                <div className="mb-2 flex flex-wrap items-center gap-2">
+                  <span className="text-base font-semibold text-gray-900 md:text-lg dark:text-white">
+                    {skips[recommendation.index].name} (
+                    {skips[recommendation.index].size} yd)
+                  </span>
+                  <span
+                    className={cn(
+                      "rounded-full px-2 py-0.5 text-xs font-medium",
+                      confidenceStyles[recommendation.confidence],
+                    )}
+                  >
+                    {recommendation.confidence} confidence
+                  </span>
+                </div>
+                <ul className="mb-4 space-y-1 text-gray-600 dark:text-gray-400">
+                  {recommendation.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onSelect(recommendation.index)}
+                    className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+                  >
+                    Show this skip
+                  </button>
+                  {recommendation.saferIndex !== null && (
+                    <button
+                      type="button"
+                      onClick={() => onSelect(recommendation.saferIndex!)}
+                      className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-medium text-gray-700 transition-colors hover:border-blue-500 dark:border-gray-600 dark:text-gray-300"
+                    >
+                      Play it safe: {skips[recommendation.saferIndex].name} (
+                      {skips[recommendation.saferIndex].size} yd)
+                    </button>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-gray-600 dark:text-gray-400">
+                Add some details about your project to see a recommended size.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
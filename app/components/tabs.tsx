@@ -2,15 +2,17 @@
 
 import { useState } from "react";
 import { motion } from "motion/react";
+import { Lock } from "lucide-react";
 import { cn } from "@/lib/utils";
+import type { Skip, WasteFit } from "@/types";
 import { HybridSkipPanel } from "./hybrid-skip-panel";
 
 /**
  * Interactive Tabs Component for Skip Selection
  *
  * This component provides the tab interface for browsing different skip sizes.
- * It manages tab selection state and renders the corresponding skip cards
- * through the HybridSkipPanel component.
+ * The selected tab is controlled by the parent (the booking draft's skip), and
+ * the corresponding skip cards are rendered through the HybridSkipPanel component.
  *
  * Features:
  * - Responsive tab sizing (mobile/tablet/desktop breakpoints)
@@ -25,38 +27,52 @@ import { HybridSkipPanel } from "./hybrid-skip-panel";
 type Tab = {
   title: string; // Display name (e.g., "Compact", "16 Yard Skip")
   value: string; // Unique identifier for the tab
+  unavailable?: boolean; // Skip can't be booked here (still viewable for the reason)
   content?: string | React.ReactNode | any; // Optional content (not used in current implementation)
 };
 
+// Returns a copy of the tabs with the tab at idx moved to the front
+const withTabFirst = (tabs: Tab[], idx: number): Tab[] => {
+  const newTabs = [...tabs];
+  const selectedTab = newTabs.splice(idx, 1); // Remove selected tab
+  newTabs.unshift(selectedTab[0]); // Add to front
+  return newTabs;
+};
+
 // Props interface for the Tabs component
 export const Tabs = ({
   tabs: propTabs,
+  selectedIndex,
+  onSelectedIndexChange,
+  skips,
+  wasteFits,
+  locationLabel,
   containerClassName,
   activeTabClassName,
   tabClassName,
   contentClassName,
 }: {
   tabs: Tab[]; // Array of tab configurations
+  selectedIndex: number; // Selected tab (the booking draft's skip)
+  onSelectedIndexChange: (index: number) => void; // Called when a tab is clicked
+  skips: Skip[]; // Skip records the tabs refer to (looked up by tab value)
+  wasteFits?: Record<number, WasteFit>; // Waste-type fit per skip id
+  locationLabel?: string; // Location shown on cards (defaults to each skip's postcode)
   containerClassName?: string; // Optional container styling override
   activeTabClassName?: string; // Optional active tab styling override
   tabClassName?: string; // Optional individual tab styling override
   contentClassName?: string; // Optional content area styling override
 }) => {
-  // State management for tab selection and ordering
-  const [active, setActive] = useState<Tab>(propTabs[0]); // Currently active tab
-  const [tabs, setTabs] = useState<Tab[]>(propTabs); // Tab order (can be reordered)
+  const tabs = withTabFirst(propTabs, selectedIndex); // Selected tab moved to front
+  const active = tabs[0]; // Currently active tab
 
   /**
-   * Reorders tabs to bring selected tab to the front
+   * Selects a tab, which brings it to the front of the card stack
    * This creates a visual hierarchy in the skip cards display
    * @param idx - Index of the clicked tab
    */
   const moveSelectedTabToTop = (idx: number) => {
-    const newTabs = [...propTabs];
-    const selectedTab = newTabs.splice(idx, 1); // Remove selected tab
-    newTabs.unshift(selectedTab[0]); // Add to front
-    setTabs(newTabs);
-    setActive(newTabs[0]);
+    onSelectedIndexChange(idx);
   };
 
   // Hover state for triggering card animations in HybridSkipPanel
@@ -80,20 +96,26 @@ export const Tabs = ({
             }}
             onMouseEnter={() => setHovering(true)} // Trigger hover animations
             onMouseLeave={() => setHovering(false)}
+            aria-disabled={tab.unavailable || undefined}
             className={cn(
               // Responsive tab styling with auto-sizing and progressive breakpoints
               "relative mx-1 min-w-0 flex-shrink-0 rounded-full px-3 py-2.5 text-center text-sm font-medium whitespace-nowrap transition-all duration-200 md:px-3 md:py-2 md:text-sm lg:px-4 lg:text-xs",
               // Dynamic styling based on active state
-              tab === active
+              tab.value === active.value
                 ? "bg-blue-600 text-white shadow-lg" // Active tab: blue background
                 : "border border-gray-200 bg-white/80 text-gray-700 hover:bg-white dark:border-gray-600 dark:bg-gray-800/80 dark:text-gray-300 dark:hover:bg-gray-700", // Inactive: subtle styling with hover effects
+              // Unavailable skips stay clickable so the reason can be read
+              tab.unavailable && "opacity-60",
               tabClassName,
             )}
             style={{
               transformStyle: "preserve-3d", // Enable 3D transforms for animations
             }}
           >
-            <span className="relative block">{tab.title}</span>
+            <span className="relative flex items-center">
+              {tab.unavailable && <Lock className="mr-1 h-3 w-3" />}
+              {tab.title}
+            </span>
           </button>
         ))}
       </div>
@@ -101,6 +123,9 @@ export const Tabs = ({
       {/* Skip card display panel with reordered tabs and hover state */}
       <HybridSkipPanel
         tabs={tabs} // Pass reordered tabs (active tab first)
+        skips={skips} // Loaded skip records for card lookup
+        wasteFits={wasteFits} // Why each size suits the chosen waste type
+        locationLabel={locationLabel} // Customer district / pricing source
         hovering={hovering} // Pass hover state for animations
         className="mt-6 w-full flex-1 md:mt-8" // Responsive spacing from tabs
       />
@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import { Scale } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatPrice } from "@/lib/pricing";
+import { quoteSkip } from "@/lib/quote";
+import { estimateOverweight, formatTonnes } from "@/lib/weight-estimate";
+import {
+  estimateTonnesForPreset,
+  materialPresets,
+} from "@/data/material-presets";
+import type { Skip } from "@/types";
+
+/**
+ * WeightEstimator Component
+ *
+ * Lets roll-on/roll-off customers estimate overweight charges. The expected
+ * load is typed in tonnes or filled in from a material preset, then compared
+ * against the skip's included allowance and charged at per_tonne_cost.
+ *
+ * Displays:
+ * - Included allowance and expected load
+ * - Overweight charge (excess tonnes × per-tonne rate)
+ * - Estimated total including VAT
+ *
+ * @param skip - Skip with a per_tonne_cost to estimate against
+ * @param hireDays - Selected hire length, included in the estimated total
+ */
+export const WeightEstimator = ({
+  skip,
+  hireDays,
+}: {
+  skip: Skip;
+  hireDays: number;
+}) => {
+  // Raw input so partially typed values like "2." survive re-renders
+  const [tonnesInput, setTonnesInput] = useState("");
+  const [presetId, setPresetId] = useState<string | null>(null);
+
+  const tonnes = Number.parseFloat(tonnesInput);
+  const estimatedTonnes = Number.isFinite(tonnes) ? tonnes : 0;
+  const estimate = estimateOverweight(skip, estimatedTonnes);
+  const breakdown = quoteSkip(skip, { hireDays, estimatedTonnes });
+
+  return (
+    <div>
+      <h4 className="mb-3 flex items-center text-sm font-semibold text-gray-900 md:mb-4 md:text-base dark:text-white">
+        {/* Section icon with gradient background */}
+        <div
+          className={`mr-2 h-4 w-4 rounded bg-gradient-to-r md:h-5 md:w-5 ${skip.gradient} flex items-center justify-center`}
+        >
+          <Scale className="h-2.5 w-2.5 text-white md:h-3 md:w-3" />
+        </div>
+        Estimate your load weight
+      </h4>
+
+      {/* Material presets fill the tonnage for a full skip */}
+      <div className="mb-3 flex flex-wrap gap-2">
+        {materialPresets.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => {
+              setPresetId(preset.id);
+              setTonnesInput(
+                estimateTonnesForPreset(preset, skip.size).toString(),
+              );
+            }}
+            className={cn(
+              "rounded-full border px-3 py-1 text-xs transition-colors md:text-sm",
+              presetId === preset.id
+                ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                : "border-gray-300 text-gray-700 hover:border-blue-500 dark:border-gray-600 dark:text-gray-300",
+            )}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Manual tonnage entry */}
+      <label className="mb-4 flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <span>Expected load</span>
+        <input
+          type="number"
+          min={0}
+          step={0.1}
+          inputMode="decimal"
+          value={tonnesInput}
+          onChange={(event) => {
+            setPresetId(null);
+            setTonnesInput(event.target.value);
+          }}
+          placeholder="0.0"
+          className="w-24 rounded-lg border border-gray-300 px-3 py-1.5 text-gray-900 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 dark:border-gray-600 dark:bg-gray-800 dark:text-white"
+        />
+        <span>tonnes</span>
+      </label>
+
+      {/* Allowance, overweight charge and resulting total */}
+      <div className="space-y-1.5 rounded-lg bg-gray-50 p-3 text-sm md:rounded-xl dark:bg-gray-800">
+        <div className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">
+            Included allowance
+          </span>
+          <span className="font-medium">
+            {formatTonnes(estimate.includedKg)}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-600 dark:text-gray-400">
+            Overweight ({formatTonnes(estimate.excessKg)} @{" "}
+            {formatPrice(estimate.perTonne)}/t)
+          </span>
+          <span
+            className={cn(
+              "font-medium",
+              estimate.charge > 0 && "text-amber-600 dark:text-amber-400",
+            )}
+          >
+            {formatPrice(estimate.charge)}
+          </span>
+        </div>
+        <div className="flex justify-between border-t border-gray-200 pt-1.5 font-semibold dark:border-gray-700">
+          <span>Estimated total inc. VAT</span>
+          <span>{formatPrice(breakdown.total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
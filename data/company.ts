@@ -0,0 +1,22 @@
+/**
+ * Company Details
+ *
+ * The seller named on VAT invoices. Replace with the registered company's
+ * details before issuing real invoices.
+ */
+
+export interface CompanyDetails {
+  name: string;
+  address: string[]; // Lines of the registered address
+  vatNumber: string; // UK VAT registration number
+  companyNumber: string; // Companies House number
+  email: string;
+}
+
+export const company: CompanyDetails = {
+  name: "Skip Hire Ltd",
+  address: ["Unit 4, Harbour Road", "Lowestoft", "NR32 2AA"],
+  vatNumber: "GB 123 4567 89",
+  companyNumber: "01234567",
+  email: "accounts@example.com",
+};
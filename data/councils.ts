@@ -0,0 +1,103 @@
+/**
+ * Council Road Permit Terms
+ *
+ * Skips on a public road need a permit from the local highway authority. Each
+ * council sets its own fee, how much notice it needs and how long a permit
+ * may last. Councils are keyed by the postcode districts (outward codes) they
+ * cover; districts missing from the table use DEFAULT_PERMIT_TERMS.
+ *
+ * Fees are in pence and sit outside the scope of VAT. The base fee covers
+ * includedDays; longer hires pay extensionFeePerWeek for each started week.
+ */
+
+export interface PermitTerms {
+  baseFee: number; // Fee for the first includedDays
+  includedDays: number;
+  extensionFeePerWeek: number; // Per started week beyond includedDays
+  noticeDays: number; // Days between ordering and the permit start
+  maxDays: number; // Longest period a permit can be issued for
+}
+
+export interface Council extends PermitTerms {
+  id: string;
+  name: string;
+  districts: string[]; // Outward codes, e.g. "NR32"
+}
+
+// Terms used where we don't hold a council's own figures
+export const DEFAULT_PERMIT_TERMS: PermitTerms = {
+  baseFee: 6500,
+  includedDays: 14,
+  extensionFeePerWeek: 2500,
+  noticeDays: 5,
+  maxDays: 28,
+};
+
+export const councils: Council[] = [
+  {
+    id: "east-suffolk",
+    name: "East Suffolk Council",
+    districts: ["NR32", "NR33", "NR34", "IP12", "IP13", "IP15", "IP16", "IP17"],
+    baseFee: 6000,
+    includedDays: 14,
+    extensionFeePerWeek: 2000,
+    noticeDays: 3,
+    maxDays: 28,
+  },
+  {
+    id: "norwich",
+    name: "Norwich City Council",
+    districts: ["NR1", "NR2", "NR3", "NR4", "NR5", "NR6", "NR7"],
+    baseFee: 5500,
+    includedDays: 14,
+    extensionFeePerWeek: 1500,
+    noticeDays: 5,
+    maxDays: 28,
+  },
+  {
+    id: "ipswich",
+    name: "Ipswich Borough Council",
+    districts: ["IP1", "IP2", "IP3", "IP4", "IP5"],
+    baseFee: 5000,
+    includedDays: 14,
+    extensionFeePerWeek: 1500,
+    noticeDays: 3,
+    maxDays: 28,
+  },
+  {
+    id: "nottingham",
+    name: "Nottingham City Council",
+    districts: ["NG1", "NG2", "NG3", "NG5", "NG6", "NG7", "NG8", "NG11"],
+    baseFee: 4000,
+    includedDays: 7,
+    extensionFeePerWeek: 2000,
+    noticeDays: 5,
+    maxDays: 28,
+  },
+  {
+    id: "chelmsford",
+    name: "Chelmsford City Council",
+    districts: ["CM1", "CM2", "CM3"],
+    baseFee: 4500,
+    includedDays: 14,
+    extensionFeePerWeek: 1500,
+    noticeDays: 3,
+    maxDays: 21,
+  },
+  {
+    id: "southwark",
+    name: "Southwark Council",
+    districts: ["SE1", "SE5", "SE15", "SE16", "SE17", "SE22"],
+    baseFee: 9500,
+    includedDays: 14,
+    extensionFeePerWeek: 4500,
+    noticeDays: 10,
+    maxDays: 14,
+  },
+];
+
+// Council covering a postcode district, if we hold its terms
+export const getCouncilForDistrict = (district: string): Council | undefined =>
+  councils.find((council) =>
+    council.districts.includes(district.trim().toUpperCase()),
+  );
@@ -0,0 +1,41 @@
+import type { DeliverySlot } from "@/types";
+
+/**
+ * Depot Delivery Schedule
+ *
+ * When the depot delivers. Times are UK local (Europe/London). Orders placed
+ * after the cut-off are treated as placed the next morning.
+ */
+
+export const DEPOT_TIME_ZONE = "Europe/London";
+
+// Hour (24h) after which today's orders roll over to tomorrow
+export const ORDER_CUT_OFF_HOUR = 14;
+
+// Delivery slots offered on each weekday (0 = Sunday); empty means closed
+export const depotSlotsByWeekday: Record<number, DeliverySlot[]> = {
+  0: [],
+  1: ["am", "pm"],
+  2: ["am", "pm"],
+  3: ["am", "pm"],
+  4: ["am", "pm"],
+  5: ["am", "pm"],
+  6: ["am"],
+};
+
+export const deliverySlotLabels: Record<DeliverySlot, string> = {
+  am: "Morning (7am - 12pm)",
+  pm: "Afternoon (12pm - 5pm)",
+};
+
+// Hours (24h, depot time) each slot covers, as in the labels above
+export const deliverySlotHours: Record<
+  DeliverySlot,
+  { start: number; end: number }
+> = {
+  am: { start: 7, end: 12 },
+  pm: { start: 12, end: 17 },
+};
+
+// How far ahead customers can book, in days
+export const BOOKING_WINDOW_DAYS = 60;
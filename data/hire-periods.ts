@@ -0,0 +1,52 @@
+/**
+ * Hire Period Configuration
+ *
+ * Durations customers can choose and the per-day rate charged for each day
+ * beyond a skip's standard hire_period_days. Rates are in pence per day.
+ *
+ * Rate resolution, most specific first:
+ *   1. Override for the price set's postcode and skip size
+ *   2. Override for the price set's postcode (any size)
+ *   3. Override for the postcode area letters (e.g. "NR")
+ *   4. Default rate for the skip size
+ *   5. Fallback formula for sizes without a default
+ *
+ * Shorter-than-standard hires are charged at the standard price.
+ */
+
+// Durations offered in the skip card, in days
+export const HIRE_PERIOD_OPTIONS = [7, 14, 21, 28] as const;
+
+// Whether a number of days is one of the offered hire periods
+export const isHirePeriodOption = (days: unknown): days is number =>
+  HIRE_PERIOD_OPTIONS.some((option) => option === days);
+
+// Default extension rate by skip size (yards → pence per day)
+export const defaultExtensionRates: Record<number, number> = {
+  4: 500,
+  6: 600,
+  8: 700,
+  10: 800,
+  12: 900,
+  14: 1000,
+  16: 1100,
+  20: 1500,
+  40: 2000,
+};
+
+// Fallback for sizes missing from defaultExtensionRates
+export const fallbackExtensionRate = (size: number): number =>
+  Math.round(size * 60) * 10;
+
+export interface ExtensionRateOverride {
+  postcode: string; // District ("NR32") or area letters ("NR")
+  size?: number; // Omit to apply to every size
+  perDay: number; // Pence per day
+}
+
+// Local variations agreed with operators
+export const extensionRateOverrides: ExtensionRateOverride[] = [
+  { postcode: "NR32", size: 20, perDay: 1200 },
+  { postcode: "NR32", size: 40, perDay: 1800 },
+  { postcode: "SE", perDay: 1500 },
+];
@@ -0,0 +1,111 @@
+/**
+ * Item Catalogue for the Inventory Calculator
+ *
+ * Typical loose volume (cubic yards, as loaded into a skip) and weight (kg)
+ * of common items. Figures are deliberately on the generous side: items
+ * rarely pack perfectly, and it is better to suggest a size up than to leave
+ * waste behind. Heavy items need a skip that allows_heavy_waste.
+ */
+
+export interface InventoryItem {
+  id: string;
+  label: string;
+  category: "furniture" | "kitchen & bathroom" | "bags" | "building";
+  yards: number; // Loose volume per item
+  kg: number; // Weight per item
+  heavy?: boolean; // Rubble, soil and similar dense waste
+}
+
+export const itemCatalogue: InventoryItem[] = [
+  { id: "sofa", label: "Sofa", category: "furniture", yards: 1.5, kg: 45 },
+  {
+    id: "armchair",
+    label: "Armchair",
+    category: "furniture",
+    yards: 0.6,
+    kg: 20,
+  },
+  {
+    id: "mattress",
+    label: "Mattress",
+    category: "furniture",
+    yards: 0.75,
+    kg: 25,
+  },
+  {
+    id: "bed-frame",
+    label: "Bed frame",
+    category: "furniture",
+    yards: 0.75,
+    kg: 30,
+  },
+  {
+    id: "wardrobe",
+    label: "Wardrobe",
+    category: "furniture",
+    yards: 1,
+    kg: 50,
+  },
+  {
+    id: "kitchen-unit",
+    label: "Kitchen unit",
+    category: "kitchen & bathroom",
+    yards: 0.4,
+    kg: 20,
+  },
+  {
+    id: "worktop",
+    label: "Worktop (3 m)",
+    category: "kitchen & bathroom",
+    yards: 0.2,
+    kg: 30,
+  },
+  {
+    id: "bathroom-suite",
+    label: "Bathroom suite",
+    category: "kitchen & bathroom",
+    yards: 1,
+    kg: 90,
+  },
+  {
+    id: "bin-bag",
+    label: "Bin bag of household waste",
+    category: "bags",
+    yards: 0.1,
+    kg: 5,
+  },
+  {
+    id: "garden-bag",
+    label: "Bag of garden waste",
+    category: "bags",
+    yards: 0.1,
+    kg: 8,
+  },
+  {
+    id: "rubble-bag",
+    label: "Bag of rubble",
+    category: "bags",
+    yards: 0.03,
+    kg: 25,
+    heavy: true,
+  },
+  {
+    id: "plasterboard",
+    label: "Plasterboard sheet",
+    category: "building",
+    yards: 0.05,
+    kg: 20,
+  },
+  { id: "door", label: "Door", category: "building", yards: 0.15, kg: 25 },
+  {
+    id: "bulk-bag-soil",
+    label: "Bulk bag of soil",
+    category: "building",
+    yards: 1,
+    kg: 1000,
+    heavy: true,
+  },
+];
+
+export const getInventoryItem = (id: string): InventoryItem | undefined =>
+  itemCatalogue.find((item) => item.id === id);
@@ -0,0 +1,33 @@
+/**
+ * Material Presets for Weight Estimates
+ *
+ * Typical bulk densities used to turn "a full skip of X" into an expected
+ * load when customers don't know their tonnage. Figures are conservative
+ * averages for loose, mixed loads as tipped into a skip.
+ */
+
+export interface MaterialPreset {
+  id: string;
+  label: string;
+  tonnesPerCubicYard: number; // Loose bulk density
+}
+
+export const materialPresets: MaterialPreset[] = [
+  { id: "household", label: "General household", tonnesPerCubicYard: 0.15 },
+  { id: "garden", label: "Garden waste", tonnesPerCubicYard: 0.25 },
+  { id: "timber", label: "Timber & wood", tonnesPerCubicYard: 0.3 },
+  { id: "plasterboard", label: "Plasterboard", tonnesPerCubicYard: 0.6 },
+  {
+    id: "mixed-builders",
+    label: "Mixed builders' waste",
+    tonnesPerCubicYard: 0.9,
+  },
+  { id: "soil", label: "Soil & turf", tonnesPerCubicYard: 1.2 },
+  { id: "rubble", label: "Brick & concrete rubble", tonnesPerCubicYard: 1.5 },
+];
+
+// Expected tonnage for a full skip of the given size filled with a material
+export const estimateTonnesForPreset = (
+  preset: MaterialPreset,
+  sizeYards: number,
+): number => Math.round(preset.tonnesPerCubicYard * sizeYards * 10) / 10;
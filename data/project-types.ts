@@ -0,0 +1,69 @@
+/**
+ * Project Types for the Size Recommender
+ *
+ * Rough waste volumes for common jobs, used to turn "refitting a bathroom" or
+ * "clearing a 3-bed loft" into a cubic-yard estimate. Each project scales by
+ * a count the customer knows (bathrooms, bedrooms, rooms...). Keywords are
+ * matched against a skip's use cases and bestFor list to judge whether the
+ * size is a typical choice for the job.
+ */
+
+export interface ProjectType {
+  id: string;
+  label: string;
+  unitLabel: string; // What the count refers to, e.g. "bathrooms"
+  yardsPerUnit: number; // Loose waste volume per unit
+  keywords: string[];
+}
+
+export const projectTypes: ProjectType[] = [
+  {
+    id: "bathroom",
+    label: "Bathroom refit",
+    unitLabel: "bathrooms",
+    yardsPerUnit: 2.5,
+    keywords: ["bathroom", "small renovation"],
+  },
+  {
+    id: "kitchen",
+    label: "Kitchen refit",
+    unitLabel: "kitchens",
+    yardsPerUnit: 4,
+    keywords: ["kitchen"],
+  },
+  {
+    id: "loft",
+    label: "Loft clearance",
+    unitLabel: "bedrooms in the house",
+    yardsPerUnit: 1.5,
+    keywords: ["declutter", "clear"],
+  },
+  {
+    id: "house",
+    label: "House clearance",
+    unitLabel: "rooms",
+    yardsPerUnit: 2,
+    keywords: ["clear", "house move"],
+  },
+  {
+    id: "garden",
+    label: "Garden clearance",
+    unitLabel: "beds, lawns or hedges",
+    yardsPerUnit: 1.5,
+    keywords: ["garden"],
+  },
+  {
+    id: "renovation",
+    label: "Room renovation",
+    unitLabel: "rooms",
+    yardsPerUnit: 3,
+    keywords: ["renovation", "extension"],
+  },
+];
+
+// Standard bin bags that fill one cubic yard, matching the catalogue's
+// lower capacity estimate
+export const BAGS_PER_YARD = 10;
+
+export const getProjectType = (id: string): ProjectType | undefined =>
+  projectTypes.find((type) => type.id === id);
@@ -0,0 +1,81 @@
+/**
+ * Service Area Catalogue
+ *
+ * Maps postcode areas (the leading letters of a postcode, e.g. "NR") to the
+ * operating region that serves them. Each region names the district whose
+ * published price set is used as its regional default when neither the
+ * customer's own district nor their postcode area has prices of its own.
+ *
+ * Postcode areas missing from this table are not served.
+ */
+
+export interface ServiceRegion {
+  name: string; // Customer-facing region name
+  defaultDistrict: string; // District whose prices act as the regional default
+  area: string; // Supplier area name sent alongside the default district
+  operator?: string; // Operator id for display catalogue overrides
+}
+
+// Operating regions keyed by id
+export const serviceRegions: Record<string, ServiceRegion> = {
+  "east-anglia": {
+    name: "East Anglia",
+    defaultDistrict: "NR32",
+    area: "Lowestoft",
+  },
+  "east-midlands": {
+    name: "East Midlands",
+    defaultDistrict: "NG1",
+    area: "Nottingham",
+  },
+  "home-counties": {
+    name: "Home Counties",
+    defaultDistrict: "CM1",
+    area: "Chelmsford",
+  },
+  london: {
+    name: "Greater London",
+    defaultDistrict: "SE1",
+    area: "London",
+    operator: "metro-waste",
+  },
+};
+
+// Postcode area letters → region id
+export const postcodeAreaRegions: Record<string, keyof typeof serviceRegions> =
+  {
+    // East Anglia
+    NR: "east-anglia",
+    IP: "east-anglia",
+    CB: "east-anglia",
+    PE: "east-anglia",
+    CO: "east-anglia",
+    // East Midlands
+    NG: "east-midlands",
+    LE: "east-midlands",
+    DE: "east-midlands",
+    LN: "east-midlands",
+    // Home Counties
+    CM: "home-counties",
+    SS: "home-counties",
+    SG: "home-counties",
+    AL: "home-counties",
+    LU: "home-counties",
+    // Greater London
+    E: "london",
+    EC: "london",
+    N: "london",
+    NW: "london",
+    SE: "london",
+    SW: "london",
+    W: "london",
+    WC: "london",
+  };
+
+// Look up the region serving a postcode area, if any
+export const getServiceRegion = (
+  postcodeArea: string,
+): ServiceRegion | null => {
+  const regionId = postcodeAreaRegions[postcodeArea.toUpperCase()];
+  return regionId ? serviceRegions[regionId] : null;
+};
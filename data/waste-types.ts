@@ -0,0 +1,63 @@
+/**
+ * Waste Categories
+ *
+ * The waste types offered in step 2 and how each one steers skip
+ * recommendations. Keywords are matched (case-insensitively, as substrings)
+ * against a skip's bestFor list and use case names from the display
+ * catalogue, so renaming a catalogue entry may need a keyword here too.
+ */
+
+export interface WasteType {
+  id: string;
+  label: string;
+  description: string;
+  heavy: boolean; // Needs a skip that allows_heavy_waste
+  keywords: string[]; // Matched against bestFor and use case names
+}
+
+export const wasteTypes: WasteType[] = [
+  {
+    id: "household",
+    label: "Household Waste",
+    description: "Furniture, boxes, clothes and general clutter",
+    heavy: false,
+    keywords: [
+      "declutter",
+      "clear-out",
+      "clearance",
+      "house move",
+      "kitchen",
+      "bathroom",
+    ],
+  },
+  {
+    id: "garden",
+    label: "Garden Waste",
+    description: "Grass cuttings, branches, hedge trimmings and leaves",
+    heavy: false,
+    keywords: ["garden"],
+  },
+  {
+    id: "construction",
+    label: "Construction Debris",
+    description: "Rubble, bricks, concrete, soil and tiles",
+    heavy: true,
+    keywords: [
+      "renovation",
+      "construction",
+      "demolition",
+      "extension",
+      "build",
+    ],
+  },
+  {
+    id: "mixed",
+    label: "Mixed Waste",
+    description: "A bit of everything from a clear-out or refit",
+    heavy: false,
+    keywords: ["clear", "renovation", "refit", "diy"],
+  },
+];
+
+export const getWasteType = (id: string | null): WasteType | undefined =>
+  wasteTypes.find((type) => type.id === id);
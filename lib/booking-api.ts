@@ -0,0 +1,76 @@
+import type { Booking, BookingDraft } from "@/types";
+import type { StepErrors } from "./booking-validation";
+
+/**
+ * Client Booking Requests
+ *
+ * Places a booking through the app's POST /api/bookings route. The server
+ * prices the booking itself; the total sent here is the one the customer
+ * saw, so a price change is reported instead of charged.
+ */
+
+/**
+ * Error surfaced to the UI when a booking can't be placed
+ */
+export class BookingApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly errors: StepErrors = {}, // Per-field problems (400)
+    public readonly total?: number, // Current price when it has changed (pence)
+  ) {
+    super(message);
+    this.name = "BookingApiError";
+  }
+
+  // Whether the server answered definitively, so a retry needs a new key
+  get isFinal(): boolean {
+    return this.status !== undefined && this.status < 500;
+  }
+}
+
+/**
+ * Place a booking.
+ *
+ * @param draft - The completed draft, with the chosen skip's id
+ * @param expectedTotal - Total in pence the customer was shown
+ * @param idempotencyKey - Reused when retrying, so a booking is only made once
+ */
+export const submitBooking = async (
+  draft: BookingDraft,
+  expectedTotal: number,
+  idempotencyKey: string,
+): Promise<Booking> => {
+  let response: Response;
+  try {
+    response = await fetch("/api/bookings", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": idempotencyKey,
+      },
+      body: JSON.stringify({ ...draft, expectedTotal }),
+    });
+  } catch {
+    throw new BookingApiError(
+      "We couldn't reach our booking system - please check your connection and try again",
+    );
+  }
+  const body: unknown = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error = body as {
+      error?: string;
+      errors?: StepErrors;
+      total?: number;
+    } | null;
+    throw new BookingApiError(
+      error?.error ?? "We couldn't place your booking - please try again",
+      response.status,
+      error?.errors,
+      error?.total,
+    );
+  }
+
+  return body as Booking;
+};
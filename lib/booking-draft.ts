@@ -0,0 +1,132 @@
+import type {
+  BookingDraft,
+  CollectionOption,
+  CustomerDetails,
+  DeliverySlot,
+  PriceBreakdown,
+  Skip,
+  SkipPlacement,
+} from "@/types";
+import type { CollectionRequest } from "./collection";
+import { getLeadDays, type AvailabilityOptions } from "./delivery-availability";
+import { getPermitNoticeDays } from "./permits";
+import { parseOutwardCode } from "./postcode";
+import { quoteSkip } from "./quote";
+
+/**
+ * Booking Draft
+ *
+ * The customer's choices as they move through the booking flow, updated
+ * through a reducer so every step reads and writes the same record. Derived
+ * values (availability, collection, prices) are worked out from the draft
+ * rather than stored in it.
+ */
+
+// Changes the steps can make to the draft
+export type BookingDraftAction =
+  | { type: "setPostcode"; postcode: string }
+  | { type: "setWasteType"; wasteTypeId: string }
+  | { type: "selectSkip"; skipId: number }
+  | { type: "setHireDays"; hireDays: number }
+  | { type: "setPlacement"; placement: SkipPlacement }
+  | { type: "setDelivery"; date: string; slot: DeliverySlot | null }
+  | { type: "setCollection"; option: CollectionOption; earlyDate: string }
+  | { type: "updateCustomer"; details: Partial<CustomerDetails> }
+  | { type: "restore"; draft: BookingDraft } // Resume a saved draft
+  | { type: "reset" };
+
+// A fresh draft: standard 14-day hire, nothing chosen yet
+export const initialBookingDraft: BookingDraft = {
+  postcode: "",
+  wasteTypeId: null,
+  skipId: null,
+  hireDays: 14,
+  placement: null,
+  deliveryDate: "",
+  deliverySlot: null,
+  collectionOption: "standard",
+  earlyCollectionDate: "",
+  customer: {
+    name: "",
+    email: "",
+    phone: "",
+    addressLine1: "",
+    addressLine2: "",
+    town: "",
+  },
+};
+
+export const bookingDraftReducer = (
+  draft: BookingDraft,
+  action: BookingDraftAction,
+): BookingDraft => {
+  switch (action.type) {
+    case "setPostcode":
+      return { ...draft, postcode: action.postcode };
+    case "setWasteType":
+      return { ...draft, wasteTypeId: action.wasteTypeId };
+    case "selectSkip":
+      return { ...draft, skipId: action.skipId };
+    case "setHireDays":
+      return { ...draft, hireDays: action.hireDays };
+    case "setPlacement":
+      return { ...draft, placement: action.placement };
+    case "setDelivery":
+      return { ...draft, deliveryDate: action.date, deliverySlot: action.slot };
+    case "setCollection":
+      return {
+        ...draft,
+        collectionOption: action.option,
+        earlyCollectionDate: action.earlyDate,
+      };
+    case "updateCustomer":
+      return { ...draft, customer: { ...draft.customer, ...action.details } };
+    case "restore":
+      return action.draft;
+    case "reset":
+      return initialBookingDraft;
+  }
+};
+
+// Outward code of the draft postcode ("" until it's valid). An outward code
+// on its own (e.g. from a booking link) is enough to load prices
+export const getDraftOutwardCode = (draft: BookingDraft): string =>
+  parseOutwardCode(draft.postcode)?.outward ?? "";
+
+// Delivery needs the skip's lead time, plus notice for a road permit
+export const getDraftAvailability = (
+  draft: BookingDraft,
+  skip: Skip | null,
+): AvailabilityOptions => ({
+  leadDays: skip ? getLeadDays(skip) : 1,
+  noticeDays: getPermitNoticeDays(draft.placement, getDraftOutwardCode(draft)),
+});
+
+// The draft's delivery, hire length and collection choice
+export const getDraftCollection = (draft: BookingDraft): CollectionRequest => ({
+  deliveryDate: draft.deliveryDate,
+  hireDays: draft.hireDays,
+  option: draft.collectionOption,
+  earlyDate: draft.earlyCollectionDate,
+});
+
+// The delivery site's address as lines, ending with its postcode. Bookings
+// placed before addresses were collected have only the postcode.
+export const getSiteAddressLines = (
+  customer: Partial<CustomerDetails>,
+  postcode: string,
+): string[] =>
+  [customer.addressLine1, customer.addressLine2, customer.town, postcode]
+    .map((line) => line?.trim())
+    .filter((line): line is string => !!line);
+
+// Full price of a skip for the draft's hire length, placement and district
+export const getDraftQuote = (
+  draft: BookingDraft,
+  skip: Skip,
+): PriceBreakdown =>
+  quoteSkip(skip, {
+    hireDays: draft.hireDays,
+    placement: draft.placement,
+    district: getDraftOutwardCode(draft),
+  });
@@ -0,0 +1,82 @@
+import { getWasteType } from "@/data/waste-types";
+import { parseOutwardCode, parsePostcode } from "./postcode";
+
+/**
+ * Booking Links
+ *
+ * Each booking step has its own URL under /book, e.g. /book/select-skip, so
+ * the browser's back and forward buttons move between steps and customers
+ * can be linked straight to a step. Query parameters prefill the draft:
+ *
+ *   /book/select-skip?postcode=NR32&size=8&waste=construction
+ *
+ * - postcode: a full postcode or just the outward code (enough for prices)
+ * - size: skip size in yards to preselect once skips load
+ * - waste: waste type id (see data/waste-types.ts)
+ *
+ * Unrecognised values are ignored.
+ */
+
+// URL segment for each step, in booking order
+export const BOOKING_STEP_SLUGS = [
+  "postcode",
+  "waste-type",
+  "select-skip",
+  "permit-check",
+  "choose-date",
+  "payment",
+] as const;
+
+export type BookingStepSlug = (typeof BOOKING_STEP_SLUGS)[number];
+
+export const isBookingStepSlug = (value: string): value is BookingStepSlug =>
+  (BOOKING_STEP_SLUGS as readonly string[]).includes(value);
+
+export const getBookingStepPath = (slug: BookingStepSlug): string =>
+  `/book/${slug}`;
+
+// Where a placed booking is confirmed, e.g. /bookings/SKP-4F7K9Q
+export const getBookingConfirmationPath = (reference: string): string =>
+  `/bookings/${encodeURIComponent(reference)}`;
+
+// Step named by a /book/<step> path, or null for any other path
+export const getStepSlugFromPath = (
+  pathname: string,
+): BookingStepSlug | null => {
+  const slug = pathname.match(/^\/book\/([^/]+)\/?$/)?.[1];
+  return slug && isBookingStepSlug(slug) ? slug : null;
+};
+
+// Draft values carried by a booking link
+export interface BookingLink {
+  postcode?: string; // Normalised full postcode or outward code
+  wasteTypeId?: string;
+  size?: number;
+}
+
+/**
+ * Read the prefill values from a booking link's query string.
+ *
+ * @param search - Query string (with or without the leading "?")
+ */
+export const parseBookingLink = (search: string): BookingLink => {
+  const params = new URLSearchParams(search);
+  const link: BookingLink = {};
+
+  const postcode = params.get("postcode") ?? "";
+  const parsed = parsePostcode(postcode);
+  if (parsed.valid) {
+    link.postcode = parsed.postcode.postcode;
+  } else {
+    const outward = parseOutwardCode(postcode);
+    if (outward) link.postcode = outward.outward;
+  }
+
+  const waste = getWasteType(params.get("waste"));
+  if (waste) link.wasteTypeId = waste.id;
+
+  const size = Number(params.get("size"));
+  if (Number.isInteger(size) && size > 0) link.size = size;
+
+  return link;
+};
@@ -0,0 +1,91 @@
+import type { Booking, PaymentIntent } from "@/types";
+import {
+  findBookingByReference,
+  setBookingPaymentIntent,
+  updateBookingPaymentStatus,
+} from "./booking-store";
+import { PaymentProviderError, type PaymentProvider } from "./payment-provider";
+
+/**
+ * Booking Payments (server-side)
+ *
+ * Connects payment intents to bookings: a payment is always for a stored
+ * booking's server-side total, and each outcome the provider reports -
+ * whether from the payment routes or a webhook - is written back to the
+ * booking's payment status.
+ */
+
+/**
+ * Start paying for a booking. A payment already under way is carried on
+ * rather than a second one started, so two tabs can't both charge the
+ * card; one waiting on a 3-D Secure check is cancelled and replaced, so
+ * finishing that check later can't charge it either.
+ *
+ * @returns The booking's open intent for its total
+ * @throws PaymentProviderError when there's no such booking or it's
+ *   already been paid for
+ */
+export const startBookingPayment = async (
+  provider: PaymentProvider,
+  reference: string,
+): Promise<PaymentIntent> => {
+  const booking = await findBookingByReference(reference);
+  if (!booking) {
+    throw new PaymentProviderError("Booking not found", "not_found");
+  }
+  const alreadyPaid = new PaymentProviderError(
+    "This booking has already been paid for",
+    "invalid_state",
+  );
+  if (booking.paymentStatus !== "pending") throw alreadyPaid;
+
+  if (booking.paymentIntentId) {
+    const current = await provider.getIntent(booking.paymentIntentId);
+    if (current.status === "requires_payment_method") return current;
+    if (current.status === "requires_action") {
+      await provider.cancelIntent(current.id);
+    } else if (current.status === "succeeded") {
+      // Paid, but the outcome wasn't recorded (e.g. a lost response)
+      await recordPaymentOutcome(provider, current);
+      throw alreadyPaid;
+    }
+  }
+
+  const intent = await provider.createIntent({
+    reference: booking.reference,
+    amount: booking.price.total,
+    currency: "gbp",
+  });
+  await setBookingPaymentIntent(booking.reference, intent.id);
+  return intent;
+};
+
+/**
+ * Update a booking from its payment: paid once the payment succeeds and
+ * refunded once all of it has been refunded. Other states leave the
+ * booking as it is. A payment that succeeds for a booking another payment
+ * has already paid for is refunded in full, so nobody is charged twice.
+ *
+ * @returns The booking, or null when it can't be found
+ */
+export const recordPaymentOutcome = async (
+  provider: PaymentProvider,
+  intent: PaymentIntent,
+): Promise<Booking | null> => {
+  if (intent.status !== "succeeded" && intent.status !== "refunded") {
+    return findBookingByReference(intent.reference);
+  }
+  const booking = await updateBookingPaymentStatus(
+    intent.reference,
+    intent.status === "succeeded" ? "paid" : "refunded",
+    intent.id,
+  );
+  if (
+    booking &&
+    intent.status === "succeeded" &&
+    booking.paymentIntentId !== intent.id
+  ) {
+    await provider.refund(intent.id);
+  }
+  return booking;
+};
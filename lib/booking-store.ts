@@ -0,0 +1,307 @@
+import { randomInt, randomUUID } from "node:crypto";
+import type {
+  Booking,
+  BookingPaymentStatus,
+  BookingRecord,
+  BookingStats,
+} from "@/types";
+import { getDataFile, readJsonList, updateJsonList } from "./json-store";
+
+/**
+ * Local Bookings Store (server-side)
+ *
+ * Bookings are kept in a JSON file (see json-store). The location defaults
+ * to .data/bookings.json in the project root and can be moved with
+ * BOOKINGS_FILE.
+ *
+ * Bookings placed online carry a short reference for the customer and the
+ * idempotency key of the request that created them, so a repeated request
+ * (a double click or a retry) returns the original booking instead of
+ * booking twice. They're held as pending until paid for, and only count
+ * towards popularity once paid. A booking is paid by a single payment:
+ * outcomes reported for any other payment are ignored once it's paid.
+ * Payment also gives a booking the next invoice number in sequence. Each
+ * change the customer can see (so far, its payment status) bumps the
+ * booking's revision, so calendar apps replace their copies of its events.
+ * Older records hold only the popularity fields.
+ */
+
+// Rolling window used for popularity statistics
+export const POPULARITY_WINDOW_DAYS = 90;
+
+const getBookingsFile = (): string =>
+  getDataFile("BOOKINGS_FILE", "bookings.json");
+
+// Read every stored booking; a missing file means no bookings yet
+export const readBookings = (): Promise<BookingRecord[]> =>
+  readJsonList<BookingRecord>(getBookingsFile());
+
+/**
+ * Count recent bookings per skip size for a postcode area.
+ *
+ * @param postcodeArea - Area letters, e.g. "NR"
+ * @param now - Reference time for the rolling window (defaults to now)
+ */
+export const getBookingStats = async (
+  postcodeArea: string,
+  now: Date = new Date(),
+): Promise<BookingStats> => {
+  const since = now.getTime() - POPULARITY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const stats: BookingStats = {
+    postcodeArea,
+    windowDays: POPULARITY_WINDOW_DAYS,
+    total: 0,
+    bySize: {},
+  };
+
+  for (const booking of await readBookings()) {
+    const bookedAt = Date.parse(booking.bookedAt);
+    if (
+      booking.postcodeArea !== postcodeArea ||
+      !(bookedAt >= since) ||
+      (isStoredBooking(booking) && booking.paymentStatus !== "paid")
+    ) {
+      continue;
+    }
+    stats.total += 1;
+    stats.bySize[booking.skipSize] = (stats.bySize[booking.skipSize] ?? 0) + 1;
+  }
+
+  return stats;
+};
+
+// Booking as stored: the idempotency key and a fingerprint of the request
+interface StoredBooking extends Booking {
+  idempotencyKey: string | null;
+  requestHash: string;
+}
+
+// A booking as submitted, before the store fills in the generated fields
+export type NewBooking = Omit<
+  Booking,
+  | "id"
+  | "reference"
+  | "bookedAt"
+  | "paymentStatus"
+  | "paymentIntentId"
+  | "paidAt"
+  | "invoiceNumber"
+  | "revision"
+  | "updatedAt"
+>;
+
+// Unambiguous characters for references (no 0/O, 1/I/L)
+const REFERENCE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const REFERENCE_LENGTH = 6;
+
+/**
+ * Raised when an idempotency key is reused for a different booking.
+ */
+export class IdempotencyConflictError extends Error {
+  constructor() {
+    super("This booking request was already used for a different booking");
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+const isStoredBooking = (record: BookingRecord): record is StoredBooking =>
+  typeof (record as Partial<StoredBooking>).reference === "string";
+
+// Strip the store's bookkeeping before a booking leaves the server
+const toBooking = ({
+  idempotencyKey: _idempotencyKey,
+  requestHash: _requestHash,
+  ...booking
+}: StoredBooking): Booking => booking;
+
+// A reference not already in use, e.g. "SKP-4F7K9Q"
+const createReference = (taken: Set<string>): string => {
+  let reference: string;
+  do {
+    reference = `SKP-${Array.from(
+      { length: REFERENCE_LENGTH },
+      () => REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)],
+    ).join("")}`;
+  } while (taken.has(reference));
+  return reference;
+};
+
+// Look a booking up by its reference (case-insensitive)
+export const findBookingByReference = async (
+  reference: string,
+): Promise<Booking | null> => {
+  const match = (await readBookings()).find(
+    (record) =>
+      isStoredBooking(record) &&
+      record.reference === reference.trim().toUpperCase(),
+  );
+  return match && isStoredBooking(match) ? toBooking(match) : null;
+};
+
+// The booking made with an idempotency key, checking it was for the same
+// request
+const findByIdempotencyKey = (
+  items: BookingRecord[],
+  idempotencyKey: string,
+  requestHash: string,
+): StoredBooking | null => {
+  const existing = items
+    .filter(isStoredBooking)
+    .find((record) => record.idempotencyKey === idempotencyKey);
+  if (existing && existing.requestHash !== requestHash) {
+    throw new IdempotencyConflictError();
+  }
+  return existing ?? null;
+};
+
+/**
+ * Look up the booking already made with an idempotency key, so a retry gets
+ * it back whatever has changed in the catalogue since.
+ *
+ * @returns The booking, or null when the key hasn't been used
+ * @throws IdempotencyConflictError if the key was used for another request
+ */
+export const findBookingByIdempotencyKey = async (
+  idempotencyKey: string,
+  requestHash: string,
+): Promise<Booking | null> => {
+  const existing = findByIdempotencyKey(
+    await readBookings(),
+    idempotencyKey,
+    requestHash,
+  );
+  return existing ? toBooking(existing) : null;
+};
+
+/**
+ * Store a new booking, or return the one already made with the same
+ * idempotency key (a retry that raced the original).
+ *
+ * @param details - The booking, without the generated fields (new bookings
+ *   await payment)
+ * @param idempotencyKey - Client key for the request, if one was sent
+ * @param requestHash - Fingerprint of the request, to spot a reused key
+ * @returns The booking and whether it was created by this call
+ * @throws IdempotencyConflictError if the key was used for another request
+ */
+export const recordBooking = (
+  details: NewBooking,
+  idempotencyKey: string | null,
+  requestHash: string,
+): Promise<{ booking: Booking; created: boolean }> =>
+  updateJsonList<BookingRecord, { booking: Booking; created: boolean }>(
+    getBookingsFile(),
+    (items) => {
+      const existing = idempotencyKey
+        ? findByIdempotencyKey(items, idempotencyKey, requestHash)
+        : null;
+      if (existing) {
+        return {
+          items,
+          result: { booking: toBooking(existing), created: false },
+        };
+      }
+
+      const bookedAt = new Date().toISOString();
+      const stored: StoredBooking = {
+        ...details,
+        id: randomUUID(),
+        reference: createReference(
+          new Set(
+            items.filter(isStoredBooking).map((record) => record.reference),
+          ),
+        ),
+        bookedAt,
+        paymentStatus: "pending",
+        paymentIntentId: null,
+        paidAt: null,
+        invoiceNumber: null,
+        revision: 0,
+        updatedAt: bookedAt,
+        idempotencyKey,
+        requestHash,
+      };
+      return {
+        items: [...items, stored],
+        result: { booking: toBooking(stored), created: true },
+      };
+    },
+  );
+
+// Invoice numbers run on from the highest issued, e.g. "INV-000042"
+const INVOICE_PREFIX = "INV-";
+
+const nextInvoiceNumber = (bookings: StoredBooking[]): string => {
+  const issued = bookings.map((booking) =>
+    Number(booking.invoiceNumber?.slice(INVOICE_PREFIX.length) ?? 0),
+  );
+  return `${INVOICE_PREFIX}${String(Math.max(0, ...issued) + 1).padStart(6, "0")}`;
+};
+
+// Apply a change to one stored booking; null when no booking has the reference
+const updateBooking = (
+  reference: string,
+  change: (record: StoredBooking, items: StoredBooking[]) => StoredBooking,
+): Promise<Booking | null> =>
+  updateJsonList<BookingRecord, Booking | null>(getBookingsFile(), (items) => {
+    let updated: Booking | null = null;
+    const next = items.map((record) => {
+      if (!isStoredBooking(record) || record.reference !== reference) {
+        return record;
+      }
+      const stored = change(record, items.filter(isStoredBooking));
+      updated = toBooking(stored);
+      return stored;
+    });
+    return { items: next, result: updated };
+  });
+
+// Record a change the customer can see
+const revise = (record: StoredBooking): StoredBooking => ({
+  ...record,
+  revision: record.revision + 1,
+  updatedAt: new Date().toISOString(),
+});
+
+/**
+ * Link a booking awaiting payment to the payment now under way for it.
+ *
+ * @returns The booking, or null when no booking has the reference
+ */
+export const setBookingPaymentIntent = (
+  reference: string,
+  paymentIntentId: string,
+): Promise<Booking | null> =>
+  updateBooking(reference, (record) =>
+    record.paymentStatus === "pending"
+      ? { ...record, paymentIntentId }
+      : record,
+  );
+
+/**
+ * Record a payment outcome against a booking. The first time a booking is
+ * paid it's dated, given the next invoice number and tied to the payment
+ * that paid it; a refund keeps all three. Once paid, outcomes of any other
+ * payment leave the booking as it is, so callers can spot a second payment
+ * by comparing paymentIntentId.
+ *
+ * @returns The booking, or null when no booking has the reference
+ */
+export const updateBookingPaymentStatus = (
+  reference: string,
+  paymentStatus: BookingPaymentStatus,
+  paymentIntentId: string,
+): Promise<Booking | null> =>
+  updateBooking(reference, (record, bookings) => {
+    // Bookings paid before payments were tracked belong to any payment
+    const paidBy = record.paymentIntentId ?? paymentIntentId;
+    if (record.paymentStatus !== "pending" && paidBy !== paymentIntentId) {
+      return record;
+    }
+    const stored: StoredBooking = { ...record, paymentStatus, paymentIntentId };
+    if (paymentStatus === "paid" && !record.invoiceNumber) {
+      stored.paidAt = new Date().toISOString();
+      stored.invoiceNumber = nextInvoiceNumber(bookings);
+    }
+    return record.paymentStatus === paymentStatus ? stored : revise(stored);
+  });
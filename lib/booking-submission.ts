@@ -0,0 +1,210 @@
+import { createHash } from "node:crypto";
+import type {
+  BookingDraft,
+  CollectionOption,
+  DeliverySlot,
+  SkipPlacement,
+} from "@/types";
+import { toSkipData } from "@/data/skip-data";
+import { isHirePeriodOption } from "@/data/hire-periods";
+import { getWasteType } from "@/data/waste-types";
+import { getDraftCollection, getDraftQuote } from "./booking-draft";
+import type { NewBooking } from "./booking-store";
+import { validateBookingDraft, type StepErrors } from "./booking-validation";
+import { getCollectionDateFor } from "./collection";
+import { normaliseUkPhone } from "./phone";
+import { parseOutwardCode, parsePostcode } from "./postcode";
+import { resolveSkipCatalogue } from "./skip-catalogue";
+import { validateSkipApiPayload } from "./skip-validation";
+import { recommendSkipsForWaste } from "./waste-recommendation";
+
+/**
+ * Booking Submissions (server-side)
+ *
+ * Turns the draft posted to /api/bookings into a booking ready to store.
+ * Nothing the browser says about price is trusted: the skip is looked up in
+ * the catalogue for the delivery postcode and priced again with the same
+ * quote the booking flow uses. The total the customer was shown is only
+ * compared against that price, so a stale page or an edited request is
+ * rejected rather than booked at the wrong price.
+ *
+ * Each submission also has a fingerprint, so a retried request can be matched
+ * to the booking it already made without pricing it again.
+ */
+
+// The body of POST /api/bookings, read into a draft
+export interface BookingSubmission {
+  draft: BookingDraft;
+  expectedTotal: number; // Total (pence) the customer agreed to pay
+}
+
+/**
+ * Raised when a submission can't be booked. status is the HTTP status to
+ * respond with; errors holds per-field messages for a 400 and total the
+ * current price when the submitted total is out of date.
+ */
+export class BookingSubmissionError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errors?: StepErrors,
+    public readonly total?: number, // Current price (pence)
+  ) {
+    super(message);
+    this.name = "BookingSubmissionError";
+  }
+}
+
+const PLACEMENTS: SkipPlacement[] = ["private", "road"];
+const DELIVERY_SLOTS: DeliverySlot[] = ["am", "pm"];
+const COLLECTION_OPTIONS: CollectionOption[] = [
+  "standard",
+  "early",
+  "wait-and-load",
+];
+
+const readString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+const readOption = <T extends string>(value: unknown, options: T[]): T | null =>
+  options.find((option) => option === value) ?? null;
+
+/**
+ * Read a request body into a draft, dropping anything of the wrong type.
+ * Missing fields are left empty for validation to report.
+ *
+ * @returns The submission, or null when the body isn't an object
+ */
+export const parseBookingSubmission = (
+  body: unknown,
+): BookingSubmission | null => {
+  if (!body || typeof body !== "object") return null;
+  const fields = body as Record<string, unknown>;
+  const customer = (fields.customer ?? {}) as Record<string, unknown>;
+
+  return {
+    draft: {
+      postcode: readString(fields.postcode),
+      wasteTypeId: getWasteType(readString(fields.wasteTypeId))?.id ?? null,
+      skipId: Number.isInteger(fields.skipId)
+        ? (fields.skipId as number)
+        : null,
+      // Only the offered hire periods; anything else is left as 0 (none)
+      hireDays: isHirePeriodOption(fields.hireDays) ? fields.hireDays : 0,
+      placement: readOption(fields.placement, PLACEMENTS),
+      deliveryDate: readString(fields.deliveryDate),
+      deliverySlot: readOption(fields.deliverySlot, DELIVERY_SLOTS),
+      collectionOption:
+        readOption(fields.collectionOption, COLLECTION_OPTIONS) ?? "standard",
+      earlyCollectionDate: readString(fields.earlyCollectionDate),
+      customer: {
+        name: readString(customer.name),
+        email: readString(customer.email).toLowerCase(),
+        phone: readString(customer.phone),
+        addressLine1: readString(customer.addressLine1),
+        addressLine2: readString(customer.addressLine2),
+        town: readString(customer.town),
+      },
+    },
+    expectedTotal: Number.isInteger(fields.expectedTotal)
+      ? (fields.expectedTotal as number)
+      : NaN,
+  };
+};
+
+// Fingerprint of a submission, to tell a retry from a different booking
+// sent with the same idempotency key
+export const hashBookingSubmission = ({
+  draft,
+  expectedTotal,
+}: BookingSubmission): string =>
+  createHash("sha256")
+    .update(JSON.stringify({ draft, expectedTotal }))
+    .digest("hex");
+
+/**
+ * Price and check a submission against the current catalogue.
+ *
+ * @throws BookingSubmissionError when the draft is incomplete, the postcode
+ *   isn't served, the skip is no longer offered or the price has changed
+ * @throws UpstreamSkipError when the supplier can't be reached
+ */
+export const prepareBooking = async ({
+  draft,
+  expectedTotal,
+}: BookingSubmission): Promise<NewBooking> => {
+  const district = parseOutwardCode(draft.postcode);
+  if (!district) {
+    throw new BookingSubmissionError(
+      "Please check the booking details",
+      400,
+      validateBookingDraft({ draft, selectedSkip: null }),
+    );
+  }
+
+  const catalogue = await resolveSkipCatalogue(district);
+  if (!catalogue) {
+    throw new BookingSubmissionError(
+      `Sorry, we don't currently serve ${district.outward}`,
+      404,
+    );
+  }
+
+  // Only skips suited to the waste type can be booked, as in the flow
+  const { skips } = recommendSkipsForWaste(
+    toSkipData(validateSkipApiPayload(catalogue.records).valid),
+    getWasteType(draft.wasteTypeId),
+  );
+  const skip = skips.find(({ id }) => id === draft.skipId) ?? null;
+  if (draft.skipId !== null && !skip) {
+    throw new BookingSubmissionError(
+      "That skip is no longer available - please choose another size",
+      409,
+    );
+  }
+
+  const errors = validateBookingDraft({ draft, selectedSkip: skip });
+  if (!skip || Object.keys(errors).length > 0) {
+    throw new BookingSubmissionError(
+      "Please check the booking details",
+      400,
+      errors,
+    );
+  }
+
+  const price = getDraftQuote(draft, skip);
+  if (price.total !== expectedTotal) {
+    throw new BookingSubmissionError(
+      "The price has changed since you started - please check the new total",
+      409,
+      undefined,
+      price.total,
+    );
+  }
+
+  // Validation has passed, so these are all present
+  const postcode = parsePostcode(draft.postcode);
+  const fullPostcode = postcode.valid
+    ? postcode.postcode.postcode
+    : draft.postcode;
+  const phone = normaliseUkPhone(draft.customer.phone)!;
+  const collectionDate = getCollectionDateFor(getDraftCollection(draft))!;
+
+  return {
+    skipSize: skip.size,
+    outwardCode: district.outward,
+    postcodeArea: district.area,
+    skipId: skip.id,
+    skipName: skip.name,
+    postcode: fullPostcode,
+    wasteTypeId: draft.wasteTypeId,
+    hireDays: draft.hireDays,
+    placement: draft.placement!,
+    deliveryDate: draft.deliveryDate,
+    deliverySlot: draft.deliverySlot!,
+    collectionOption: draft.collectionOption,
+    collectionDate,
+    customer: { ...draft.customer, phone },
+    price,
+  };
+};
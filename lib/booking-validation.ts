@@ -0,0 +1,165 @@
+import type { BookingDraft, CustomerDetails, Skip } from "@/types";
+import { isHirePeriodOption } from "@/data/hire-periods";
+import {
+  getDraftAvailability,
+  getDraftCollection,
+  getDraftOutwardCode,
+} from "./booking-draft";
+import { validateEarlyCollection } from "./collection";
+import { parseIsoDate } from "./dates";
+import { isDeliverySlotAvailable } from "./delivery-availability";
+import { getPermitQuote, isPlacementAllowed } from "./permits";
+import { normaliseUkPhone } from "./phone";
+import { parsePostcode } from "./postcode";
+
+/**
+ * Booking Step Validation
+ *
+ * One validator per booking step, each returning customer-facing errors
+ * keyed by field (empty when the step is complete). The booking flow only
+ * moves on once the current step passes, and re-checks every step before
+ * the booking is placed.
+ */
+
+// What a validator can see: the draft and the skip it resolves to
+export interface BookingValidationContext {
+  draft: BookingDraft;
+  selectedSkip: Skip | null; // Chosen skip, else the recommended size
+}
+
+// Field → error message
+export type StepErrors = Record<string, string>;
+
+export type StepValidator = (context: BookingValidationContext) => StepErrors;
+
+// Loose check that catches typos; the address is confirmed by email
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const validatePostcodeStep = ({
+  draft,
+}: BookingValidationContext): StepErrors => {
+  const result = parsePostcode(draft.postcode);
+  return result.valid ? {} : { postcode: result.error };
+};
+
+export const validateWasteTypeStep = ({
+  draft,
+}: BookingValidationContext): StepErrors =>
+  draft.wasteTypeId ? {} : { wasteType: "Please choose the type of waste" };
+
+export const validateSkipStep = ({
+  draft,
+  selectedSkip,
+}: BookingValidationContext): StepErrors => {
+  if (!selectedSkip) return { skip: "Please choose a skip size" };
+  if (selectedSkip.forbidden) {
+    return {
+      skip: `The ${selectedSkip.name} can't be booked online here - please choose another size`,
+    };
+  }
+  if (!isHirePeriodOption(draft.hireDays)) {
+    return { hireDays: "Please choose a hire period" };
+  }
+  return {};
+};
+
+export const validatePermitStep = ({
+  draft,
+  selectedSkip,
+}: BookingValidationContext): StepErrors => {
+  const { placement, hireDays } = draft;
+  if (!placement) {
+    return { placement: "Please choose where the skip will be placed" };
+  }
+  if (selectedSkip && !isPlacementAllowed(selectedSkip, placement)) {
+    return {
+      placement: `The ${selectedSkip.name} can only be placed on private land`,
+    };
+  }
+  if (placement === "road") {
+    const permit = getPermitQuote(getDraftOutwardCode(draft), hireDays);
+    if (!permit.withinMaxDuration) {
+      return {
+        placement: `Road permits here last up to ${permit.maxDays} days - please shorten the hire`,
+      };
+    }
+  }
+  return {};
+};
+
+export const validateDateStep = ({
+  draft,
+  selectedSkip,
+}: BookingValidationContext): StepErrors => {
+  const { deliveryDate, deliverySlot, hireDays } = draft;
+  const errors: StepErrors = {};
+
+  if (!deliveryDate) {
+    errors.delivery = "Please choose a delivery date";
+  } else if (!parseIsoDate(deliveryDate)) {
+    errors.delivery = "That isn't a valid delivery date";
+  } else if (!deliverySlot) {
+    errors.delivery = "Please choose a morning or afternoon slot";
+  } else if (
+    !isDeliverySlotAvailable(
+      deliveryDate,
+      deliverySlot,
+      getDraftAvailability(draft, selectedSkip),
+    )
+  ) {
+    errors.delivery =
+      "That delivery slot is no longer available - please choose another";
+  }
+
+  const collection = getDraftCollection(draft);
+  if (parseIsoDate(deliveryDate) && collection.option === "early") {
+    const error = validateEarlyCollection(
+      deliveryDate,
+      hireDays,
+      collection.earlyDate ?? "",
+    );
+    if (error) errors.collection = error;
+  }
+
+  return errors;
+};
+
+// Also used to check details sent to the server
+export const validateCustomerDetails = (
+  customer: CustomerDetails,
+): StepErrors => {
+  const errors: StepErrors = {};
+  if (!customer.name.trim()) errors.name = "Please tell us your name";
+  if (!EMAIL_PATTERN.test(customer.email.trim())) {
+    errors.email = "Please enter a valid email address";
+  }
+  if (!normaliseUkPhone(customer.phone)) {
+    errors.phone = "Please enter a valid UK phone number";
+  }
+  if (!customer.addressLine1.trim()) {
+    errors.addressLine1 = "Please tell us where to deliver the skip";
+  }
+  if (!customer.town.trim()) errors.town = "Please enter the town or city";
+  return errors;
+};
+
+export const validatePaymentStep = ({
+  draft,
+}: BookingValidationContext): StepErrors =>
+  validateCustomerDetails(draft.customer);
+
+// Whether a step's errors are empty
+export const isStepValid = (errors: StepErrors): boolean =>
+  Object.keys(errors).length === 0;
+
+// Every step's errors together, as checked before a booking is placed
+export const validateBookingDraft = (
+  context: BookingValidationContext,
+): StepErrors => ({
+  ...validatePostcodeStep(context),
+  ...validateWasteTypeStep(context),
+  ...validateSkipStep(context),
+  ...validatePermitStep(context),
+  ...validateDateStep(context),
+  ...validatePaymentStep(context),
+});
@@ -0,0 +1,163 @@
+import type { Booking, BookingPaymentStatus } from "@/types";
+import {
+  DEPOT_TIME_ZONE,
+  deliverySlotHours,
+  deliverySlotLabels,
+} from "@/data/depot";
+import { getSiteAddressLines } from "./booking-draft";
+import { addDays } from "./dates";
+
+/**
+ * Booking Calendar (iCalendar)
+ *
+ * A booking's delivery and collection as an .ics calendar (RFC 5545). The
+ * delivery is timed to its slot in depot time; collection has no fixed time
+ * so it's an all-day event. Both are placed at the delivery site's address.
+ * Each event's UID is fixed per booking and its SEQUENCE is the booking's
+ * revision, so importing the file again, or refreshing a subscription to
+ * the calendar feed, updates the events instead of adding copies or being
+ * ignored. Bookings can't be rescheduled yet, so the change that shows is
+ * the payment status: tentative until paid, then confirmed, and cancelled
+ * once refunded so subscribed calendars drop the events.
+ */
+
+// Events for a booking still awaiting payment are shown as tentative
+const eventStatus: Record<BookingPaymentStatus, string> = {
+  pending: "TENTATIVE",
+  paid: "CONFIRMED",
+  refunded: "CANCELLED",
+};
+
+// How often subscribed calendars should check for changes
+const REFRESH_INTERVAL = "PT1H";
+
+// UK time zone rules (GMT, with BST from the last Sunday in March to the
+// last Sunday in October), so timed events read right in any client
+const LONDON_TIME_ZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${DEPOT_TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0000",
+  "TZOFFSETTO:+0100",
+  "TZNAME:BST",
+  "DTSTART:19700329T010000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0000",
+  "TZNAME:GMT",
+  "DTSTART:19701025T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+// Escape text values: backslashes, separators and line breaks
+const escapeText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/[;,]/g, (char) => `\\${char}`)
+    .replace(/\r?\n/g, "\\n");
+
+// Fold lines longer than 75 octets onto continuation lines
+const foldLine = (line: string): string => {
+  if (Buffer.byteLength(line, "utf8") <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuations start with a space
+    if (Buffer.byteLength(current + char, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+// "2026-10-30" → "20261030"
+const formatDate = (isoDate: string): string => isoDate.replace(/-/g, "");
+
+// UTC timestamp, e.g. "20261019T101500Z"
+const formatTimestamp = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+const formatHour = (isoDate: string, hour: number): string =>
+  `${formatDate(isoDate)}T${String(hour).padStart(2, "0")}0000`;
+
+/**
+ * Build the calendar for a booking. Timestamps come from the booking's
+ * latest revision, so the same booking always gives the same file.
+ *
+ * @param booking - The stored booking
+ * @returns iCalendar text with CRLF line endings
+ */
+export const buildBookingCalendar = (booking: Booking): string => {
+  const { reference, skipName, skipSize } = booking;
+  const skip = `${skipName} skip (${skipSize} yard)`;
+  const address = getSiteAddressLines(booking.customer, booking.postcode).join(
+    ", ",
+  );
+  const slot = deliverySlotHours[booking.deliverySlot];
+  const updatedAt = formatTimestamp(new Date(booking.updatedAt));
+  const common = [
+    `DTSTAMP:${updatedAt}`,
+    `LAST-MODIFIED:${updatedAt}`,
+    `SEQUENCE:${booking.revision}`,
+    `LOCATION:${escapeText(address)}`,
+    `STATUS:${eventStatus[booking.paymentStatus]}`,
+  ];
+  const waitAndLoad = booking.collectionOption === "wait-and-load";
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Skip Hire//Bookings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`Skip hire ${reference}`)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+    ...LONDON_TIME_ZONE,
+    "BEGIN:VEVENT",
+    `UID:${booking.id}-delivery@skip-hire`,
+    ...common,
+    `DTSTART;TZID=${DEPOT_TIME_ZONE}:${formatHour(booking.deliveryDate, slot.start)}`,
+    `DTEND;TZID=${DEPOT_TIME_ZONE}:${formatHour(booking.deliveryDate, slot.end)}`,
+    `SUMMARY:${escapeText(`Skip delivery - ${skip}`)}`,
+    `DESCRIPTION:${escapeText(
+      [
+        `Booking ${reference}`,
+        `${skip} delivered to ${address}`,
+        `Delivery slot: ${deliverySlotLabels[booking.deliverySlot]}`,
+        waitAndLoad ? "Wait and load: the driver waits while it's filled" : "",
+      ]
+        .filter(Boolean)
+        .join("\n"),
+    )}`,
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    `UID:${booking.id}-collection@skip-hire`,
+    ...common,
+    `DTSTART;VALUE=DATE:${formatDate(booking.collectionDate)}`,
+    `DTEND;VALUE=DATE:${formatDate(addDays(booking.collectionDate, 1))}`,
+    `SUMMARY:${escapeText(`Skip collection - ${skip}`)}`,
+    `DESCRIPTION:${escapeText(
+      [
+        `Booking ${reference}`,
+        `${skip} collected from ${address}`,
+        "Please keep access to the skip clear",
+      ].join("\n"),
+    )}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+};
@@ -0,0 +1,30 @@
+import { randomUUID } from "node:crypto";
+import type { CallbackRequest } from "@/types";
+import { getDataFile, updateJsonList } from "./json-store";
+
+/**
+ * Call Back Request Store (server-side)
+ *
+ * Requests from customers who want a skip size that can't be booked online
+ * in their area. Kept in .data/callback-requests.json (override with
+ * CALLBACK_REQUESTS_FILE) for the sales team to work through.
+ */
+
+const getCallbackFile = (): string =>
+  getDataFile("CALLBACK_REQUESTS_FILE", "callback-requests.json");
+
+// Store a new request and return it with its id and timestamp
+export const recordCallbackRequest = (
+  request: Omit<CallbackRequest, "id" | "requestedAt">,
+): Promise<CallbackRequest> =>
+  updateJsonList<CallbackRequest, CallbackRequest>(
+    getCallbackFile(),
+    (items) => {
+      const stored: CallbackRequest = {
+        ...request,
+        id: randomUUID(),
+        requestedAt: new Date().toISOString(),
+      };
+      return { items: [...items, stored], result: stored };
+    },
+  );
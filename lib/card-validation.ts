@@ -0,0 +1,110 @@
+import type { CardDetails } from "@/types";
+import type { StepErrors } from "./booking-validation";
+
+/**
+ * Card Validation
+ *
+ * Checks typed card details before they're sent for payment: the number's
+ * length and Luhn check digit, an expiry date that hasn't passed and a CVC
+ * of the right length for the card brand. Passing these checks doesn't mean
+ * the card will be accepted - only the provider can say that - but it catches
+ * typing mistakes without a round trip.
+ */
+
+export type CardBrand = "visa" | "mastercard" | "amex" | "unknown";
+
+// Digits only, e.g. "4242 4242-4242 4242" → "4242424242424242"
+export const normaliseCardNumber = (input: string): string =>
+  input.replace(/[\s-]/g, "");
+
+// Brand from the number's leading digits
+export const getCardBrand = (number: string): CardBrand => {
+  const digits = normaliseCardNumber(number);
+  if (/^4/.test(digits)) return "visa";
+  if (/^3[47]/.test(digits)) return "amex";
+  const prefix = Number(digits.slice(0, 4));
+  if (/^5[1-5]/.test(digits) || (prefix >= 2221 && prefix <= 2720)) {
+    return "mastercard";
+  }
+  return "unknown";
+};
+
+// Luhn (mod 10) check: doubling every second digit from the right
+export const isLuhnValid = (number: string): boolean => {
+  const digits = normaliseCardNumber(number);
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+// Group digits for display as they're typed: Amex 4-6-5, others in fours
+export const formatCardNumber = (input: string): string => {
+  const digits = normaliseCardNumber(input).replace(/\D/g, "").slice(0, 19);
+  if (getCardBrand(digits) === "amex") {
+    return [digits.slice(0, 4), digits.slice(4, 10), digits.slice(10, 15)]
+      .filter(Boolean)
+      .join(" ");
+  }
+  return digits.replace(/(\d{4})(?=\d)/g, "$1 ");
+};
+
+/**
+ * Read an expiry typed as MM/YY (or MM/YYYY).
+ *
+ * @returns Month (1-12) and full year, or null when it isn't a date
+ */
+export const parseCardExpiry = (
+  input: string,
+): { month: number; year: number } | null => {
+  const match = input.trim().match(/^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/);
+  if (!match) return null;
+  const month = Number(match[1]);
+  const year = Number(match[2].length === 2 ? `20${match[2]}` : match[2]);
+  return month >= 1 && month <= 12 ? { month, year } : null;
+};
+
+/**
+ * Check typed card details.
+ *
+ * @param card - Number, expiry and CVC as typed
+ * @param now - Today, for the expiry check (cards are valid to the end of
+ *   their expiry month)
+ * @returns Errors keyed by field: number, expiry and cvc
+ */
+export const validateCardDetails = (
+  card: CardDetails,
+  now: Date = new Date(),
+): StepErrors => {
+  const errors: StepErrors = {};
+  const number = normaliseCardNumber(card.number);
+  const brand = getCardBrand(number);
+
+  if (!/^\d{12,19}$/.test(number) || !isLuhnValid(number)) {
+    errors.number = "Please check your card number";
+  }
+
+  const expiry = parseCardExpiry(card.expiry);
+  if (!expiry) {
+    errors.expiry = "Please enter the expiry date as MM/YY";
+  } else if (
+    expiry.year < now.getFullYear() ||
+    (expiry.year === now.getFullYear() && expiry.month < now.getMonth() + 1)
+  ) {
+    errors.expiry = "This card has expired";
+  }
+
+  const cvcLength = brand === "amex" ? 4 : 3;
+  if (!new RegExp(`^\\d{${cvcLength}}$`).test(card.cvc.trim())) {
+    errors.cvc = `Please enter the ${cvcLength}-digit security code`;
+  }
+
+  return errors;
+};
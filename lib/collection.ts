@@ -0,0 +1,139 @@
+import { deliverySlotLabels } from "@/data/depot";
+import type {
+  CollectionOption,
+  DeliverySlot,
+  SkipPlacement,
+  TimelineEvent,
+} from "@/types";
+import { addDays, formatDisplayDate, parseIsoDate } from "./dates";
+import { isDepotOpen } from "./delivery-availability";
+import { getCollectionDate } from "./hire-period";
+
+/**
+ * Collection Scheduling
+ *
+ * A standard hire is collected when the hire period ends, moved on to the
+ * next day the depot works if that falls on a Sunday or bank holiday (the
+ * extra days are free). Customers can instead ask for an early collection on
+ * a working day before then, or "wait and load", where the driver waits while
+ * the skip is filled and takes it away on the delivery day.
+ */
+
+export interface CollectionRequest {
+  deliveryDate: string;
+  hireDays: number;
+  option: CollectionOption;
+  earlyDate?: string; // Requested date for an early collection
+}
+
+export const collectionOptionLabels: Record<CollectionOption, string> = {
+  standard: "At the end of my hire",
+  early: "Early collection",
+  "wait-and-load": "Wait and load",
+};
+
+// First day on or after a date that the depot works (looking up to two
+// weeks ahead, which covers any run of closures)
+export const nextDepotDay = (date: string): string => {
+  let day = date;
+  for (let i = 0; i < 14 && !isDepotOpen(day); i++) day = addDays(day, 1);
+  return day;
+};
+
+// Collection date at the end of the hire, on a day the depot works
+export const getStandardCollectionDate = (
+  deliveryDate: string,
+  hireDays: number,
+): string => nextDepotDay(getCollectionDate(deliveryDate, hireDays));
+
+/**
+ * Why an early collection date can't be used, or null if it can. Early
+ * collections must fall on a working day after delivery and before the
+ * standard collection.
+ */
+export const validateEarlyCollection = (
+  deliveryDate: string,
+  hireDays: number,
+  earlyDate: string,
+): string | null => {
+  if (!earlyDate) return "Choose a date for the early collection";
+  if (earlyDate <= deliveryDate) return "Collection must be after delivery";
+  if (earlyDate >= getStandardCollectionDate(deliveryDate, hireDays)) {
+    return "That's not earlier than the end of your hire";
+  }
+  if (!isDepotOpen(earlyDate)) return "We don't collect on that day";
+  return null;
+};
+
+// The date the skip will be collected, or null if the request is invalid
+export const getCollectionDateFor = ({
+  deliveryDate,
+  hireDays,
+  option,
+  earlyDate = "",
+}: CollectionRequest): string | null => {
+  if (!parseIsoDate(deliveryDate)) return null;
+  if (option === "wait-and-load") return deliveryDate;
+  if (option === "early") {
+    return validateEarlyCollection(deliveryDate, hireDays, earlyDate)
+      ? null
+      : earlyDate;
+  }
+  return getStandardCollectionDate(deliveryDate, hireDays);
+};
+
+/**
+ * Build the hire timeline: delivery, the hire itself, collection and, for
+ * road placement, the window the council permit must cover.
+ */
+export const getHireTimeline = ({
+  deliverySlot,
+  placement,
+  ...request
+}: CollectionRequest & {
+  deliverySlot: DeliverySlot | null;
+  placement: SkipPlacement | null;
+}): TimelineEvent[] => {
+  const { deliveryDate, option } = request;
+  const collectionDate = getCollectionDateFor(request);
+  if (!deliveryDate || !collectionDate) return [];
+
+  const events: TimelineEvent[] = [
+    {
+      kind: "delivery",
+      label: "Delivery",
+      start: deliveryDate,
+      detail: deliverySlot ? deliverySlotLabels[deliverySlot] : undefined,
+    },
+  ];
+  if (option !== "wait-and-load") {
+    events.push({
+      kind: "hire",
+      label: "Your hire",
+      start: deliveryDate,
+      end: collectionDate,
+      detail: `Fill the skip by ${formatDisplayDate(collectionDate)}`,
+    });
+  }
+  if (placement === "road") {
+    events.push({
+      kind: "permit",
+      label: "Road permit",
+      start: deliveryDate,
+      end: collectionDate,
+      detail: "Arranged by us with your council",
+    });
+  }
+  events.push({
+    kind: "collection",
+    label: option === "wait-and-load" ? "Loaded and collected" : "Collection",
+    start: collectionDate,
+    detail:
+      option === "wait-and-load"
+        ? "The driver waits while you load"
+        : option === "early"
+          ? "Early collection at your request"
+          : undefined,
+  });
+  return events;
+};
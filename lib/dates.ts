@@ -0,0 +1,41 @@
+/**
+ * Calendar Date Helpers
+ *
+ * Booking dates are plain calendar days stored as ISO strings ("2025-06-14"),
+ * the same format as <input type="date">. Arithmetic is done in UTC so that
+ * daylight saving changes can never shift a date by one.
+ */
+
+// Format a Date as an ISO calendar date using its UTC fields
+export const toIsoDate = (date: Date): string =>
+  date.toISOString().slice(0, 10);
+
+// Parse an ISO calendar date into a UTC Date, or null if it isn't one.
+// Days that don't exist ("2026-11-31") are rejected rather than rolled over.
+export const parseIsoDate = (isoDate: string): Date | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(isoDate)) return null;
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return null;
+  return toIsoDate(date) === isoDate ? date : null;
+};
+
+// Add (or subtract) whole days to an ISO calendar date
+export const addDays = (isoDate: string, days: number): string => {
+  const date = parseIsoDate(isoDate);
+  if (!date) throw new RangeError(`Invalid calendar date: ${isoDate}`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIsoDate(date);
+};
+
+// Human-friendly date, e.g. "Sat 14 Jun 2025"
+export const formatDisplayDate = (isoDate: string): string => {
+  const date = parseIsoDate(isoDate);
+  if (!date) return isoDate;
+  return date.toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
@@ -0,0 +1,167 @@
+import { getBankHoliday } from "@/data/bank-holidays";
+import {
+  BOOKING_WINDOW_DAYS,
+  DEPOT_TIME_ZONE,
+  ORDER_CUT_OFF_HOUR,
+  depotSlotsByWeekday,
+} from "@/data/depot";
+import type { DeliverySlot, Skip } from "@/types";
+import { addDays, parseIsoDate, toIsoDate } from "./dates";
+
+/**
+ * Delivery Availability
+ *
+ * Works out which days and half-day slots a skip can be delivered in:
+ *
+ * - Lead time comes from the skip's deliveryTime ("Same day" = 0 days,
+ *   "Next day" = 1), counted from the order date. Orders after the depot
+ *   cut-off count as placed the next day.
+ * - A road permit's notice period (see lib/permits.ts) can push the earliest
+ *   date back further.
+ * - The depot doesn't deliver on closed weekdays or England & Wales bank
+ *   holidays, and same-day deliveries only go out in the afternoon.
+ *
+ * "Today" is always the depot's local date, whatever the customer's clock.
+ */
+
+export interface AvailabilityOptions {
+  leadDays: number; // Days between order and delivery
+  noticeDays?: number; // Permit notice, if the skip goes on the road
+  now?: Date; // Injected for tests; defaults to the current time
+}
+
+export interface DeliveryDay {
+  date: string; // ISO calendar date
+  available: boolean;
+  reason?: string; // Why the day can't be booked
+  slots: DeliverySlot[]; // Bookable slots (empty when unavailable)
+}
+
+// Whether the depot works on a date (not a closed weekday or bank holiday)
+export const isDepotOpen = (date: string): boolean => {
+  const day = parseIsoDate(date);
+  return (
+    !!day &&
+    !getBankHoliday(date) &&
+    depotSlotsByWeekday[day.getUTCDay()].length > 0
+  );
+};
+
+// Lead time in days for a skip's advertised delivery time
+export const getLeadDays = (skip: Pick<Skip, "deliveryTime">): number =>
+  skip.deliveryTime === "Same day" ? 0 : 1;
+
+// The depot's local date and hour at a moment in time
+const getDepotClock = (now: Date): { date: string; hour: number } => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: DEPOT_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) =>
+    parts.find((item) => item.type === type)?.value ?? "";
+
+  return {
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+    hour: Number(part("hour")),
+  };
+};
+
+// Today's date at the depot
+export const getDepotToday = (now = new Date()): string =>
+  getDepotClock(now).date;
+
+// Earliest date a delivery could be made, before closures are considered
+export const getEarliestDeliveryDate = ({
+  leadDays,
+  noticeDays = 0,
+  now = new Date(),
+}: AvailabilityOptions): string => {
+  const { date, hour } = getDepotClock(now);
+  const orderDate = hour >= ORDER_CUT_OFF_HOUR ? addDays(date, 1) : date;
+  return addDays(orderDate, Math.max(leadDays, noticeDays));
+};
+
+/**
+ * Availability of a single day.
+ *
+ * @param date - ISO calendar date to check
+ * @param options - Lead time, permit notice and the current time
+ */
+export const getDeliveryDay = (
+  date: string,
+  options: AvailabilityOptions,
+): DeliveryDay => {
+  const { noticeDays = 0, leadDays, now = new Date() } = options;
+  const today = getDepotToday(now);
+  const earliest = getEarliestDeliveryDate(options);
+  const unavailable = (reason: string): DeliveryDay => ({
+    date,
+    available: false,
+    reason,
+    slots: [],
+  });
+
+  const day = parseIsoDate(date);
+  if (!day) return unavailable("Not a valid date");
+  if (date < today) return unavailable("In the past");
+  if (date < earliest) {
+    return unavailable(
+      noticeDays > leadDays
+        ? `The council needs ${noticeDays} days' notice for the road permit`
+        : "Too soon for delivery",
+    );
+  }
+  if (date > addDays(today, BOOKING_WINDOW_DAYS)) {
+    return unavailable("Too far ahead to book online");
+  }
+
+  const holiday = getBankHoliday(date);
+  if (holiday) return unavailable(`${holiday.name} - depot closed`);
+
+  const slots = depotSlotsByWeekday[day.getUTCDay()];
+  if (slots.length === 0) return unavailable("No deliveries on this day");
+
+  // Same-day deliveries go out in the afternoon only
+  const daySlots =
+    date === today ? slots.filter((slot) => slot === "pm") : slots;
+  if (daySlots.length === 0) return unavailable("Too soon for delivery");
+
+  return { date, available: true, slots: daySlots };
+};
+
+// Availability for every day of a month (month is 0-based, as in Date)
+export const getDeliveryMonth = (
+  year: number,
+  month: number,
+  options: AvailabilityOptions,
+): DeliveryDay[] => {
+  const first = toIsoDate(new Date(Date.UTC(year, month, 1)));
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return Array.from({ length: daysInMonth }, (_, index) =>
+    getDeliveryDay(addDays(first, index), options),
+  );
+};
+
+// Whether a date and slot can be booked
+export const isDeliverySlotAvailable = (
+  date: string,
+  slot: DeliverySlot | null,
+  options: AvailabilityOptions,
+): boolean =>
+  slot !== null && getDeliveryDay(date, options).slots.includes(slot);
+
+// First bookable day on or after the earliest delivery date
+export const getFirstAvailableDate = (
+  options: AvailabilityOptions,
+): string | null => {
+  let date = getEarliestDeliveryDate(options);
+  for (let i = 0; i <= BOOKING_WINDOW_DAYS; i++) {
+    if (getDeliveryDay(date, options).available) return date;
+    date = addDays(date, 1);
+  }
+  return null;
+};
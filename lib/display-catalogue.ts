@@ -0,0 +1,370 @@
+import { Building, Factory, Home, type LucideIcon } from "lucide-react";
+import type { UseCase } from "@/types";
+import rawCatalogue from "@/data/display-catalogue.json";
+
+/**
+ * Skip Display Catalogue
+ *
+ * Loads data/display-catalogue.json, which describes how each skip size is
+ * presented (name, gradient, capacity, use cases...). Product staff edit the
+ * JSON; this module validates it when first imported and resolves the display
+ * properties for a size.
+ *
+ * Catalogue format (version 1):
+ * - defaults: name/scale/popularity used when nothing more specific applies.
+ *   "{size}" in any string is replaced with the skip size.
+ * - formulas: generate capacity, dimensions and weight allowance for sizes
+ *   without explicit values.
+ * - ranges: rules applied in order to every size within minSize..maxSize
+ *   (inclusive, either bound optional). Later rules override earlier ones,
+ *   so list broad rules first.
+ * - sizes: explicit entries per size, applied over the ranges. Listing a size
+ *   here is also what makes it a size the supplier feed may offer.
+ * - operators: per-operator range and size overrides, applied last. The
+ *   operator for a skip comes from its service region.
+ */
+
+// Icon names the catalogue may reference
+const catalogueIcons: Record<string, LucideIcon> = {
+  home: Home,
+  building: Building,
+  factory: Factory,
+};
+
+// Catalogue versions this loader understands
+const SUPPORTED_VERSIONS = [1];
+
+// Fields a range, size or operator entry may set
+interface DisplayFields {
+  name?: string;
+  scale?: number;
+  popularity?: number;
+  icon?: string;
+  gradient?: string;
+  description?: string;
+  capacity?: string;
+  dimensions?: string;
+  includedTonnes?: number;
+  bestFor?: string[];
+  useCases?: UseCase[];
+  badge?: string;
+}
+
+interface RangeRule extends DisplayFields {
+  minSize?: number;
+  maxSize?: number;
+}
+
+interface SizeEntry extends DisplayFields {
+  size: number;
+}
+
+interface OperatorOverrides {
+  ranges?: RangeRule[];
+  sizes?: SizeEntry[];
+}
+
+export interface DisplayCatalogue {
+  version: number;
+  defaults: { name: string; scale: number; popularity: number };
+  formulas: {
+    bagsPerYard: [number, number];
+    dimensionsFtPerYard: [number, number, number];
+    heightBaseFt: number;
+    includedTonnesPerYard: number;
+  };
+  ranges: RangeRule[];
+  sizes: SizeEntry[];
+  operators: Record<string, OperatorOverrides>;
+}
+
+// Fully resolved display properties for one skip size
+export interface DisplayProperties {
+  name: string;
+  scale: number;
+  popularity: number;
+  icon: LucideIcon;
+  gradient: string;
+  description: string;
+  capacity: string;
+  dimensions: string;
+  includedTonnes: number;
+  weight: string;
+  bestFor: string[];
+  useCases: UseCase[];
+  badge?: string;
+}
+
+/**
+ * Error thrown when the catalogue file is malformed. Lists every problem
+ * found so the file can be fixed in one pass.
+ */
+export class DisplayCatalogueError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid display catalogue:\n- ${issues.join("\n- ")}`);
+    this.name = "DisplayCatalogueError";
+  }
+}
+
+// Whether a size falls inside a range rule (bounds inclusive)
+const inRange = (
+  { minSize = 0, maxSize = Infinity }: RangeRule,
+  size: number,
+) => size >= minSize && size <= maxSize;
+
+// Replace "{size}" placeholders in catalogue strings
+const fillSize = (text: string, size: number) =>
+  text.replaceAll("{size}", String(size));
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+// Check the optional display fields of one entry, reporting under `path`
+const validateFields = (
+  entry: Record<string, unknown>,
+  path: string,
+  issues: string[],
+) => {
+  for (const field of [
+    "name",
+    "gradient",
+    "description",
+    "capacity",
+    "dimensions",
+    "badge",
+  ]) {
+    if (entry[field] !== undefined && typeof entry[field] !== "string") {
+      issues.push(`${path}.${field} must be a string`);
+    }
+  }
+  if (entry.icon !== undefined && !(String(entry.icon) in catalogueIcons)) {
+    issues.push(
+      `${path}.icon must be one of ${Object.keys(catalogueIcons).join(", ")}`,
+    );
+  }
+  if (
+    entry.popularity !== undefined &&
+    !(
+      isNumber(entry.popularity) &&
+      entry.popularity >= 0 &&
+      entry.popularity <= 1
+    )
+  ) {
+    issues.push(`${path}.popularity must be between 0 and 1`);
+  }
+  for (const field of ["scale", "includedTonnes"]) {
+    if (
+      entry[field] !== undefined &&
+      !(isNumber(entry[field]) && entry[field] > 0)
+    ) {
+      issues.push(`${path}.${field} must be a positive number`);
+    }
+  }
+  if (entry.bestFor !== undefined && !isStringList(entry.bestFor)) {
+    issues.push(`${path}.bestFor must be a list of strings`);
+  }
+  if (
+    entry.useCases !== undefined &&
+    !(
+      Array.isArray(entry.useCases) &&
+      entry.useCases.every(
+        (useCase) =>
+          typeof useCase?.type === "string" &&
+          isNumber(useCase?.percentage) &&
+          useCase.percentage >= 0 &&
+          useCase.percentage <= 100,
+      )
+    )
+  ) {
+    issues.push(
+      `${path}.useCases must be a list of { type, percentage 0-100 }`,
+    );
+  }
+};
+
+const validateRanges = (ranges: unknown, path: string, issues: string[]) => {
+  if (!Array.isArray(ranges)) {
+    issues.push(`${path} must be a list`);
+    return;
+  }
+  ranges.forEach((range: Record<string, unknown>, index) => {
+    const rangePath = `${path}[${index}]`;
+    const { minSize = 0, maxSize = Infinity } = range;
+    if (!isNumber(minSize) || (maxSize !== Infinity && !isNumber(maxSize))) {
+      issues.push(`${rangePath} bounds must be numbers`);
+    } else if (minSize > (maxSize as number)) {
+      issues.push(`${rangePath}.minSize must not exceed maxSize`);
+    }
+    validateFields(range, rangePath, issues);
+  });
+};
+
+const validateSizes = (sizes: unknown, path: string, issues: string[]) => {
+  if (!Array.isArray(sizes)) {
+    issues.push(`${path} must be a list`);
+    return;
+  }
+  const seen = new Set<number>();
+  sizes.forEach((entry: Record<string, unknown>, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!(isNumber(entry.size) && entry.size > 0)) {
+      issues.push(`${entryPath}.size must be a positive number`);
+    } else if (seen.has(entry.size)) {
+      issues.push(`${entryPath}.size ${entry.size} is listed twice`);
+    } else {
+      seen.add(entry.size);
+    }
+    validateFields(entry, entryPath, issues);
+  });
+};
+
+/**
+ * Validate a parsed catalogue file.
+ *
+ * @throws DisplayCatalogueError listing every problem found
+ */
+export const validateDisplayCatalogue = (value: unknown): DisplayCatalogue => {
+  const catalogue = value as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!SUPPORTED_VERSIONS.includes(catalogue?.version as number)) {
+    issues.push(
+      `version must be one of ${SUPPORTED_VERSIONS.join(", ")} (got ${String(catalogue?.version)})`,
+    );
+    throw new DisplayCatalogueError(issues);
+  }
+
+  const defaults = catalogue.defaults as Record<string, unknown> | undefined;
+  if (
+    typeof defaults?.name !== "string" ||
+    !isNumber(defaults?.scale) ||
+    !isNumber(defaults?.popularity)
+  ) {
+    issues.push("defaults must set name, scale and popularity");
+  }
+
+  const formulas = catalogue.formulas as Record<string, unknown> | undefined;
+  if (
+    !(
+      Array.isArray(formulas?.bagsPerYard) && formulas.bagsPerYard.length === 2
+    ) ||
+    !(
+      Array.isArray(formulas?.dimensionsFtPerYard) &&
+      formulas.dimensionsFtPerYard.length === 3
+    ) ||
+    !isNumber(formulas?.heightBaseFt) ||
+    !isNumber(formulas?.includedTonnesPerYard)
+  ) {
+    issues.push(
+      "formulas must set bagsPerYard [min, max], dimensionsFtPerYard [l, w, h], heightBaseFt and includedTonnesPerYard",
+    );
+  }
+
+  validateRanges(catalogue.ranges, "ranges", issues);
+  validateSizes(catalogue.sizes, "sizes", issues);
+
+  // Every size must end up with an icon, gradient, description and use cases
+  const ranges = (catalogue.ranges ?? []) as RangeRule[];
+  if (Array.isArray(catalogue.sizes)) {
+    for (const entry of catalogue.sizes as SizeEntry[]) {
+      const merged = [
+        ...ranges.filter((range) => inRange(range, entry.size)),
+        entry,
+      ];
+      for (const field of [
+        "icon",
+        "gradient",
+        "description",
+        "bestFor",
+        "useCases",
+      ] as const) {
+        if (!merged.some((rule) => rule[field] !== undefined)) {
+          issues.push(
+            `size ${entry.size} has no ${field} from any range or entry`,
+          );
+        }
+      }
+    }
+  }
+
+  const operators = catalogue.operators ?? {};
+  if (typeof operators !== "object" || Array.isArray(operators)) {
+    issues.push("operators must be an object keyed by operator id");
+  } else {
+    for (const [id, overrides] of Object.entries(operators)) {
+      const { ranges = [], sizes = [] } = overrides as OperatorOverrides;
+      validateRanges(ranges, `operators.${id}.ranges`, issues);
+      validateSizes(sizes, `operators.${id}.sizes`, issues);
+    }
+  }
+
+  if (issues.length > 0) throw new DisplayCatalogueError(issues);
+  return catalogue as unknown as DisplayCatalogue;
+};
+
+// Validated once at import so a bad edit fails the build, not a customer
+const displayCatalogue = validateDisplayCatalogue(rawCatalogue);
+
+// Sizes the catalogue knows how to present, in ascending order
+export const getCatalogueSizes = (): number[] =>
+  displayCatalogue.sizes.map((entry) => entry.size).sort((a, b) => a - b);
+
+/**
+ * Resolve the display properties for a skip size.
+ *
+ * @param size - Skip size in yards
+ * @param operatorId - Operator whose overrides apply, if any
+ */
+export const resolveDisplayProperties = (
+  size: number,
+  operatorId?: string,
+): DisplayProperties => {
+  const { defaults, formulas, ranges, sizes, operators } = displayCatalogue;
+  const operator = operatorId ? operators[operatorId] : undefined;
+
+  // Merge order: ranges → size entry → operator ranges → operator size entry
+  const fields: DisplayFields = Object.assign(
+    {},
+    ...ranges.filter((range) => inRange(range, size)),
+    sizes.find((entry) => entry.size === size),
+    ...(operator?.ranges ?? []).filter((range) => inRange(range, size)),
+    operator?.sizes?.find((entry) => entry.size === size),
+  );
+  delete (fields as Partial<SizeEntry & RangeRule>).size;
+  delete (fields as RangeRule).minSize;
+  delete (fields as RangeRule).maxSize;
+
+  const [bagsMin, bagsMax] = formulas.bagsPerYard;
+  const [length, width, height] = formulas.dimensionsFtPerYard;
+  const includedTonnes =
+    fields.includedTonnes ?? Math.round(size * formulas.includedTonnesPerYard);
+
+  return {
+    ...fields,
+    name: fillSize(fields.name ?? defaults.name, size),
+    scale: fields.scale ?? defaults.scale,
+    popularity: fields.popularity ?? defaults.popularity,
+    icon: catalogueIcons[fields.icon!],
+    gradient: fields.gradient!,
+    description: fillSize(fields.description!, size),
+    capacity:
+      fields.capacity ??
+      `${Math.round(size * bagsMin)}-${Math.round(size * bagsMax)} bin bags`,
+    dimensions:
+      fields.dimensions ??
+      `${Math.round(size * length)}ft × ${Math.round(size * width)}ft × ${Math.round(
+        size * height + formulas.heightBaseFt,
+      )}ft`,
+    includedTonnes,
+    // The weight shown on cards is the allowance overweight charges are based on
+    weight: `${includedTonnes} tonnes`,
+    bestFor: fields.bestFor!.map((item) => fillSize(item, size)),
+    useCases: fields.useCases!.map((useCase) => ({
+      ...useCase,
+      type: fillSize(useCase.type, size),
+    })),
+  };
+};
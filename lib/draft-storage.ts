@@ -0,0 +1,136 @@
+import type { BookingDraft } from "@/types";
+import { initialBookingDraft } from "./booking-draft";
+
+/**
+ * Saved Booking Drafts (client-side)
+ *
+ * The booking draft and current step are saved to localStorage as the
+ * customer goes, so a refresh or a return visit can pick up where they left
+ * off. Each record carries a schema version: older records are upgraded
+ * through `migrations` one version at a time, and records that are expired,
+ * from a newer version or unreadable are discarded.
+ *
+ * The total shown when the draft was saved is kept so prices can be
+ * re-checked against the catalogue on resume.
+ */
+
+const STORAGE_KEY = "skip-booking-draft";
+
+// Bump when BookingDraft changes shape, adding a migration from the old version
+export const DRAFT_VERSION = 1;
+
+// Saved drafts older than this are dropped
+export const DRAFT_EXPIRY_DAYS = 7;
+
+export interface SavedBookingDraft {
+  version: number;
+  savedAt: string; // ISO timestamp
+  expiresAt: string; // ISO timestamp
+  step: number; // Step the customer was on (1-indexed)
+  draft: BookingDraft;
+  quote: { skipId: number; total: number } | null; // Price last shown, in pence
+}
+
+type StoredRecord = Record<string, unknown>;
+
+// Upgrades from version n to n + 1, keyed by n
+const migrations: Record<number, (record: StoredRecord) => StoredRecord> = {};
+
+// Bring a stored record up to the current version, or null if it can't be
+const migrate = (record: StoredRecord): StoredRecord | null => {
+  let current = record;
+  while (current.version !== DRAFT_VERSION) {
+    const version = current.version;
+    if (typeof version !== "number" || version > DRAFT_VERSION) return null;
+    const upgrade = migrations[version];
+    if (!upgrade) return null;
+    current = { ...upgrade(current), version: version + 1 };
+  }
+  return current;
+};
+
+// localStorage, when the browser allows it (not during SSR or when blocked)
+const getStorage = (): Storage | null => {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage;
+  } catch {
+    return null;
+  }
+};
+
+export const clearBookingDraft = (): void => {
+  getStorage()?.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Save the draft and step, resetting the expiry.
+ *
+ * @param saved - Step, draft and the price last shown
+ * @param now - Save time (defaults to now)
+ */
+export const saveBookingDraft = (
+  saved: Pick<SavedBookingDraft, "step" | "draft" | "quote">,
+  now: Date = new Date(),
+): void => {
+  const expiresAt = new Date(
+    now.getTime() + DRAFT_EXPIRY_DAYS * 24 * 60 * 60 * 1000,
+  );
+  const record: SavedBookingDraft = {
+    version: DRAFT_VERSION,
+    savedAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    ...saved,
+  };
+  try {
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Storage full or blocked; the booking still works without resume
+  }
+};
+
+/**
+ * The saved draft, migrated to the current version, or null if there isn't
+ * a usable one. Expired and unreadable drafts are removed.
+ *
+ * @param now - Reference time for the expiry (defaults to now)
+ */
+export const loadBookingDraft = (
+  now: Date = new Date(),
+): SavedBookingDraft | null => {
+  const raw = getStorage()?.getItem(STORAGE_KEY);
+  if (!raw) return null;
+
+  let record: StoredRecord | null = null;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (parsed && typeof parsed === "object") {
+      record = migrate(parsed as StoredRecord);
+    }
+  } catch {
+    record = null;
+  }
+
+  const expiresAt = Date.parse(String(record?.expiresAt));
+  if (
+    !record ||
+    !record.draft ||
+    typeof record.draft !== "object" ||
+    !(expiresAt > now.getTime())
+  ) {
+    clearBookingDraft();
+    return null;
+  }
+
+  const saved = record as unknown as SavedBookingDraft;
+  return {
+    ...saved,
+    step: Number.isInteger(saved.step) ? saved.step : 1,
+    // Fill any fields the saved draft is missing with their defaults
+    draft: {
+      ...initialBookingDraft,
+      ...saved.draft,
+      customer: { ...initialBookingDraft.customer, ...saved.draft.customer },
+    },
+    quote: saved.quote ?? null,
+  };
+};
@@ -0,0 +1,215 @@
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import type { PaymentIntent, PaymentWebhookEvent } from "@/types";
+import { normaliseCardNumber, validateCardDetails } from "./card-validation";
+import { getDataFile, readJsonList, updateJsonList } from "./json-store";
+import { PaymentProviderError, type PaymentProvider } from "./payment-provider";
+
+/**
+ * Fake Payment Provider (server-side)
+ *
+ * A local stand-in for a card gateway, for development and tests. No money
+ * moves; intents are kept in .data/fake-payments.json (override with
+ * FAKE_PAYMENTS_FILE). The outcome depends only on the card number, so
+ * every scenario can be reproduced:
+ *
+ *   4242 4242 4242 4242  succeeds (as does any other valid number)
+ *   4000 0000 0000 0002  declined
+ *   4000 0000 0000 9995  declined for insufficient funds
+ *   4000 0025 0000 3155  needs 3-D Secure authentication
+ *
+ * Any future expiry and any CVC of the right length are accepted.
+ *
+ * Webhooks are signed with an HMAC-SHA256 of the raw body using
+ * PAYMENT_WEBHOOK_SECRET, sent hex-encoded in the Payment-Signature header;
+ * signFakeWebhook produces the signature for a test event.
+ */
+
+// Card numbers that are declined, with the reason given
+const DECLINED_CARDS: Record<string, string> = {
+  "4000000000000002": "Your card was declined",
+  "4000000000009995": "Your card has insufficient funds",
+};
+// Card number that needs 3-D Secure authentication
+const CHALLENGE_CARD = "4000002500003155";
+
+// Local default so webhooks can be tried without configuration
+const DEFAULT_WEBHOOK_SECRET = "fake-webhook-secret";
+
+const getPaymentsFile = (): string =>
+  getDataFile("FAKE_PAYMENTS_FILE", "fake-payments.json");
+
+const getWebhookSecret = (): string =>
+  process.env.PAYMENT_WEBHOOK_SECRET || DEFAULT_WEBHOOK_SECRET;
+
+// Hex HMAC of a webhook body, as the fake provider would send it
+export const signFakeWebhook = (body: string): string =>
+  createHmac("sha256", getWebhookSecret()).update(body).digest("hex");
+
+const readIntent = async (intentId: string): Promise<PaymentIntent> => {
+  const intent = (await readJsonList<PaymentIntent>(getPaymentsFile())).find(
+    ({ id }) => id === intentId,
+  );
+  if (!intent) {
+    throw new PaymentProviderError("Payment not found", "not_found");
+  }
+  return intent;
+};
+
+// Apply a change to one stored intent and return the result
+const updateIntent = (
+  intentId: string,
+  change: (intent: PaymentIntent) => PaymentIntent,
+): Promise<PaymentIntent> =>
+  updateJsonList<PaymentIntent, PaymentIntent>(getPaymentsFile(), (items) => {
+    const index = items.findIndex(({ id }) => id === intentId);
+    if (index === -1) {
+      throw new PaymentProviderError("Payment not found", "not_found");
+    }
+    const updated = change(items[index]);
+    return {
+      items: items.map((item, i) => (i === index ? updated : item)),
+      result: updated,
+    };
+  });
+
+const requireStatus = (
+  intent: PaymentIntent,
+  ...statuses: PaymentIntent["status"][]
+): void => {
+  if (!statuses.includes(intent.status)) {
+    throw new PaymentProviderError(
+      `This payment can't be changed while it is ${intent.status.replace(/_/g, " ")}`,
+      "invalid_state",
+    );
+  }
+};
+
+export const createFakePaymentProvider = (): PaymentProvider => ({
+  name: "fake",
+
+  createIntent: async ({ reference, amount, currency }) => {
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new PaymentProviderError(
+        "Payments must be for a positive amount",
+        "invalid_amount",
+      );
+    }
+    const intent: PaymentIntent = {
+      id: `pi_fake_${randomUUID().replace(/-/g, "")}`,
+      reference,
+      amount,
+      currency,
+      status: "requires_payment_method",
+      amountRefunded: 0,
+      failureReason: null,
+      cardLast4: null,
+    };
+    return updateJsonList<PaymentIntent, PaymentIntent>(
+      getPaymentsFile(),
+      (items) => ({ items: [...items, intent], result: intent }),
+    );
+  },
+
+  getIntent: readIntent,
+
+  confirmIntent: async (intentId, card) => {
+    if (Object.keys(validateCardDetails(card)).length > 0) {
+      throw new PaymentProviderError(
+        "Please check your card details",
+        "invalid_card",
+      );
+    }
+    const number = normaliseCardNumber(card.number);
+    const decline = DECLINED_CARDS[number];
+
+    return updateIntent(intentId, (intent) => {
+      requireStatus(intent, "requires_payment_method");
+      const attempt = { ...intent, cardLast4: number.slice(-4) };
+      if (decline) {
+        return {
+          ...attempt,
+          status: "requires_payment_method",
+          failureReason: decline,
+        };
+      }
+      return {
+        ...attempt,
+        status: number === CHALLENGE_CARD ? "requires_action" : "succeeded",
+        failureReason: null,
+      };
+    });
+  },
+
+  completeChallenge: (intentId, authenticated) =>
+    updateIntent(intentId, (intent) => {
+      requireStatus(intent, "requires_action");
+      return authenticated
+        ? { ...intent, status: "succeeded", failureReason: null }
+        : {
+            ...intent,
+            status: "requires_payment_method",
+            failureReason:
+              "Your bank couldn't confirm it's you - please try again or use another card",
+          };
+    }),
+
+  cancelIntent: (intentId) =>
+    updateIntent(intentId, (intent) => {
+      requireStatus(intent, "requires_payment_method", "requires_action");
+      return { ...intent, status: "canceled" };
+    }),
+
+  refund: (intentId, amount) =>
+    updateIntent(intentId, (intent) => {
+      requireStatus(intent, "succeeded");
+      const remaining = intent.amount - intent.amountRefunded;
+      const refund = amount ?? remaining;
+      if (!Number.isInteger(refund) || refund <= 0 || refund > remaining) {
+        throw new PaymentProviderError(
+          `Refunds must be between 1p and the ${remaining}p not yet refunded`,
+          "invalid_amount",
+        );
+      }
+      const amountRefunded = intent.amountRefunded + refund;
+      return {
+        ...intent,
+        amountRefunded,
+        status: amountRefunded === intent.amount ? "refunded" : "succeeded",
+      };
+    }),
+
+  // Body: { "type": "payment.succeeded", "intentId": "pi_fake_..." }
+  parseWebhook: async (body, signature) => {
+    const expected = Buffer.from(signFakeWebhook(body));
+    const received = Buffer.from(signature ?? "");
+    if (
+      expected.length !== received.length ||
+      !timingSafeEqual(expected, received)
+    ) {
+      throw new PaymentProviderError(
+        "Webhook signature doesn't match",
+        "invalid_signature",
+      );
+    }
+
+    let event: { type?: unknown; intentId?: unknown } = {};
+    try {
+      event = JSON.parse(body);
+    } catch {
+      // Reported as unrecognised below
+    }
+    const types: PaymentWebhookEvent["type"][] = [
+      "payment.succeeded",
+      "payment.failed",
+      "payment.refunded",
+    ];
+    const type = types.find((item) => item === event.type);
+    if (!type || typeof event.intentId !== "string") {
+      throw new PaymentProviderError(
+        "Unrecognised webhook event",
+        "invalid_state",
+      );
+    }
+    return { type, intent: await readIntent(event.intentId) };
+  },
+});
@@ -0,0 +1,70 @@
+import type { PriceLine, Skip } from "@/types";
+import {
+  defaultExtensionRates,
+  extensionRateOverrides,
+  fallbackExtensionRate,
+} from "@/data/hire-periods";
+import { addDays } from "./dates";
+import { formatPrice } from "./pricing";
+
+/**
+ * Hire Period Pricing
+ *
+ * Each day beyond a skip's standard hire_period_days is charged at the
+ * extension rate resolved from data/hire-periods.ts. The extension is a
+ * VAT-able surcharge; shorter hires cost the standard price.
+ */
+
+// Resolve the per-day extension rate (pence) for a skip's size and price set
+export const getExtensionRate = (
+  skip: Pick<Skip, "size" | "postcode">,
+): number => {
+  const postcode = skip.postcode.toUpperCase();
+  const area = postcode.match(/^[A-Z]+/)?.[0] ?? "";
+
+  const override =
+    extensionRateOverrides.find(
+      (rule) => rule.postcode === postcode && rule.size === skip.size,
+    ) ??
+    extensionRateOverrides.find(
+      (rule) => rule.postcode === postcode && rule.size === undefined,
+    ) ??
+    extensionRateOverrides.find(
+      (rule) => rule.postcode === area && rule.size === undefined,
+    );
+
+  return (
+    override?.perDay ??
+    defaultExtensionRates[skip.size] ??
+    fallbackExtensionRate(skip.size)
+  );
+};
+
+// Number of chargeable extra days for a requested hire length
+export const getExtraHireDays = (
+  skip: Pick<Skip, "hire_period_days">,
+  hireDays: number,
+): number => Math.max(0, hireDays - skip.hire_period_days);
+
+// Surcharge line for extra hire days (empty when within the standard period)
+export const hirePeriodSurcharges = (
+  skip: Pick<Skip, "size" | "postcode" | "hire_period_days">,
+  hireDays: number,
+): PriceLine[] => {
+  const extraDays = getExtraHireDays(skip, hireDays);
+  if (extraDays === 0) return [];
+
+  const rate = getExtensionRate(skip);
+  return [
+    {
+      label: `Extended hire (${extraDays} extra day${extraDays === 1 ? "" : "s"} @ ${formatPrice(rate)}/day)`,
+      amount: extraDays * rate,
+    },
+  ];
+};
+
+// Collection date for a hire starting on the delivery date
+export const getCollectionDate = (
+  deliveryDate: string,
+  hireDays: number,
+): string => addDays(deliveryDate, hireDays);
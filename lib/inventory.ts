@@ -0,0 +1,81 @@
+import { itemCatalogue } from "@/data/item-catalogue";
+import type { Skip } from "@/types";
+
+/**
+ * Item Inventory Calculator
+ *
+ * Totals the volume and weight of the items a customer plans to throw away
+ * and measures them against each skip: volume against the size in cubic
+ * yards, weight against the included allowance (Skip.includedTonnes), and
+ * heavy items against allows_heavy_waste.
+ */
+
+// Quantity per item catalogue id
+export type Inventory = Record<string, number>;
+
+export interface InventoryTotals {
+  yards: number;
+  kg: number;
+  hasHeavyItems: boolean;
+}
+
+export interface SkipFill {
+  volumeFill: number; // Share of the skip's volume used (1 = full)
+  weightFill: number; // Share of the weight allowance used (1 = at limit)
+  overfilled: boolean;
+  overweight: boolean;
+  heavyNotAllowed: boolean; // Heavy items in a light-waste-only skip
+  fits: boolean; // None of the above
+}
+
+// Total volume and weight of an inventory
+export const sumInventory = (inventory: Inventory): InventoryTotals =>
+  itemCatalogue.reduce<InventoryTotals>(
+    (totals, item) => {
+      const quantity = inventory[item.id] ?? 0;
+      return {
+        yards: totals.yards + item.yards * quantity,
+        kg: totals.kg + item.kg * quantity,
+        hasHeavyItems: totals.hasHeavyItems || (!!item.heavy && quantity > 0),
+      };
+    },
+    { yards: 0, kg: 0, hasHeavyItems: false },
+  );
+
+// How full an inventory would make a skip
+export const assessSkipFill = (
+  skip: Pick<Skip, "size" | "includedTonnes" | "allows_heavy_waste">,
+  totals: InventoryTotals,
+): SkipFill => {
+  const volumeFill = skip.size > 0 ? totals.yards / skip.size : Infinity;
+  const weightLimitKg = skip.includedTonnes * 1000;
+  const weightFill = weightLimitKg > 0 ? totals.kg / weightLimitKg : Infinity;
+  const overfilled = volumeFill > 1;
+  const overweight = weightFill > 1;
+  const heavyNotAllowed = totals.hasHeavyItems && !skip.allows_heavy_waste;
+
+  return {
+    volumeFill,
+    weightFill,
+    overfilled,
+    overweight,
+    heavyNotAllowed,
+    fits: !overfilled && !overweight && !heavyNotAllowed,
+  };
+};
+
+/**
+ * Index of the smallest bookable skip larger than skips[fromIndex] that the
+ * inventory fits in, or null if none does.
+ */
+export const findNextFittingSkip = (
+  skips: Skip[],
+  totals: InventoryTotals,
+  fromIndex: number,
+): number | null => {
+  const index = skips.findIndex(
+    (skip, i) =>
+      i > fromIndex && !skip.forbidden && assessSkipFill(skip, totals).fits,
+  );
+  return index === -1 ? null : index;
+};
@@ -0,0 +1,329 @@
+import type { Booking } from "@/types";
+import { company, type CompanyDetails } from "@/data/company";
+import { getSiteAddressLines } from "./booking-draft";
+import { formatDisplayDate } from "./dates";
+import {
+  A4_WIDTH,
+  createPdf,
+  wrapText,
+  type PdfRule,
+  type PdfText,
+} from "./pdf";
+
+/**
+ * VAT Invoices
+ *
+ * A paid booking's invoice, built from the price breakdown stored with it so
+ * the invoice always matches what was charged. VAT-able lines (the hire,
+ * any surcharges or discounts and transport) are listed net with one VAT
+ * amount at the record's rate, worked out as the pricing engine does (see
+ * pricing.ts). A council permit fee is a disbursement outside the scope of
+ * VAT and is listed after it. Once a booking has been refunded its invoice
+ * shows the refund, leaving nothing paid. Rendered as a standalone HTML page
+ * or a one-page PDF.
+ */
+
+export interface InvoiceLine {
+  description: string;
+  amount: number; // Net, in pence (discounts negative)
+  vatRate: number | null; // Percentage, or null when outside the scope of VAT
+}
+
+export interface Invoice {
+  number: string;
+  date: string; // ISO date of payment (the tax point)
+  bookingReference: string;
+  seller: CompanyDetails;
+  customer: {
+    name: string;
+    email: string;
+    phone: string;
+    address: string[]; // The delivery site's, ending with its postcode
+  };
+  supply: string; // What was supplied, where and when
+  lines: InvoiceLine[];
+  vatRate: number;
+  vatableTotal: number; // Net of the VAT-able lines
+  vat: number;
+  outsideScopeTotal: number; // Council permit fee
+  total: number; // Amount charged
+  refunded: boolean; // The whole amount has since been refunded
+}
+
+/**
+ * Build a booking's invoice.
+ *
+ * @returns The invoice, or null when the booking hasn't been paid for yet
+ */
+export const buildInvoice = (booking: Booking): Invoice | null => {
+  if (!booking.invoiceNumber || !booking.paidAt) return null;
+  const { price } = booking;
+  const { name, email, phone } = booking.customer;
+  const address = getSiteAddressLines(booking.customer, booking.postcode);
+
+  const lines: InvoiceLine[] = [
+    {
+      description: `${booking.skipName} skip hire (${booking.skipSize} yard, ${booking.hireDays} days)`,
+      amount: price.base,
+      vatRate: price.vatRate,
+    },
+    ...price.surcharges.map(({ label, amount }) => ({
+      description: label,
+      amount,
+      vatRate: price.vatRate,
+    })),
+    ...price.discounts.map(({ label, amount }) => ({
+      description: label,
+      amount: -amount,
+      vatRate: price.vatRate,
+    })),
+    ...(price.transport > 0
+      ? [
+          {
+            description: "Transport",
+            amount: price.transport,
+            vatRate: price.vatRate,
+          },
+        ]
+      : []),
+    ...(price.permit > 0
+      ? [
+          {
+            description: "Council road permit fee",
+            amount: price.permit,
+            vatRate: null,
+          },
+        ]
+      : []),
+  ];
+
+  return {
+    number: booking.invoiceNumber,
+    date: booking.paidAt.slice(0, 10),
+    bookingReference: booking.reference,
+    seller: company,
+    customer: { name, email, phone, address },
+    supply: `Delivered to ${address.join(", ")} on ${formatDisplayDate(booking.deliveryDate)}, collected ${formatDisplayDate(booking.collectionDate)}`,
+    lines,
+    vatRate: price.vatRate,
+    vatableTotal: price.total - price.vat - price.permit,
+    vat: price.vat,
+    outsideScopeTotal: price.permit,
+    total: price.total,
+    refunded: booking.paymentStatus === "refunded",
+  };
+};
+
+// Invoices always show pence, e.g. "£1,234.50"
+export const formatInvoiceAmount = (pence: number): string =>
+  `${pence < 0 ? "-" : ""}£${(Math.abs(pence) / 100).toLocaleString("en-GB", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+const formatVatRate = (rate: number | null): string =>
+  rate === null ? "Outside scope" : `${rate}%`;
+
+// Totals rows shown under the lines
+const getTotals = (invoice: Invoice): [string, number][] => {
+  const totals: [string, number][] = [
+    ["Subtotal (VAT-able)", invoice.vatableTotal],
+    [`VAT at ${invoice.vatRate}%`, invoice.vat],
+  ];
+  if (invoice.outsideScopeTotal > 0) {
+    totals.push(["Outside the scope of VAT", invoice.outsideScopeTotal]);
+  }
+  if (invoice.refunded) {
+    totals.push(["Total", invoice.total], ["Refunded", -invoice.total]);
+    totals.push(["Total paid", 0]);
+  } else {
+    totals.push(["Total paid", invoice.total]);
+  }
+  return totals;
+};
+
+// Closing line about payment
+const getPaymentNote = (invoice: Invoice): string =>
+  `${invoice.refunded ? "Refunded in full" : "Paid in full"}. Questions about this invoice: ${invoice.seller.email}`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[
+        char
+      ]!,
+  );
+
+// A printable, self-contained HTML invoice
+export const renderInvoiceHtml = (invoice: Invoice): string => {
+  const { seller, customer } = invoice;
+  const rows = invoice.lines
+    .map(
+      (line) =>
+        `<tr><td>${escapeHtml(line.description)}</td><td class="num">${formatVatRate(line.vatRate)}</td><td class="num">${formatInvoiceAmount(line.amount)}</td></tr>`,
+    )
+    .join("\n");
+  const totals = getTotals(invoice)
+    .map(
+      ([label, amount], index, all) =>
+        `<tr class="${index === all.length - 1 ? "total" : ""}"><td colspan="2">${escapeHtml(label)}</td><td class="num">${formatInvoiceAmount(amount)}</td></tr>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en-GB">
+<head>
+<meta charset="utf-8">
+<title>VAT invoice ${escapeHtml(invoice.number)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; max-width: 720px; margin: 40px auto; padding: 0 24px; font-size: 14px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; }
+  h1 { font-size: 24px; margin: 0; }
+  .muted { color: #4b5563; }
+  .details { display: flex; justify-content: space-between; margin: 32px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 8px 0; text-align: left; border-bottom: 1px solid #e5e7eb; }
+  th { font-size: 12px; text-transform: uppercase; color: #4b5563; }
+  .num { text-align: right; }
+  tr.total td { font-weight: bold; border-top: 2px solid #111827; border-bottom: none; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>${escapeHtml(seller.name)}</h1>
+    <p class="muted">${seller.address.map(escapeHtml).join("<br>")}<br>VAT reg. no. ${escapeHtml(seller.vatNumber)}<br>Company no. ${escapeHtml(seller.companyNumber)}</p>
+  </div>
+  <div class="num">
+    <h1>VAT invoice</h1>
+    <p class="muted">Invoice no. ${escapeHtml(invoice.number)}<br>Date ${formatDisplayDate(invoice.date)}<br>Booking ${escapeHtml(invoice.bookingReference)}</p>
+  </div>
+</header>
+<div class="details">
+  <div>
+    <strong>Billed to</strong>
+    <p class="muted">${[customer.name, ...customer.address, customer.email, customer.phone].map(escapeHtml).join("<br>")}</p>
+  </div>
+</div>
+<p>${escapeHtml(invoice.supply)}</p>
+<table>
+<thead><tr><th>Description</th><th class="num">VAT rate</th><th class="num">Net</th></tr></thead>
+<tbody>
+${rows}
+${totals}
+</tbody>
+</table>
+<p class="muted">${escapeHtml(getPaymentNote(invoice))}</p>
+</body>
+</html>
+`;
+};
+
+// The same invoice as a one-page PDF
+export const renderInvoicePdf = (invoice: Invoice): Buffer => {
+  const { seller, customer } = invoice;
+  const left = 50;
+  const right = A4_WIDTH - 50;
+  const texts: PdfText[] = [];
+  const rules: PdfRule[] = [];
+
+  texts.push({ text: seller.name, x: left, y: 70, size: 18, bold: true });
+  texts.push({
+    text: "VAT invoice",
+    x: right,
+    y: 70,
+    size: 18,
+    bold: true,
+    align: "right",
+  });
+  [
+    ...seller.address,
+    `VAT reg. no. ${seller.vatNumber}`,
+    `Company no. ${seller.companyNumber}`,
+  ].forEach((text, index) => texts.push({ text, x: left, y: 92 + index * 14 }));
+  [
+    `Invoice no. ${invoice.number}`,
+    `Date ${formatDisplayDate(invoice.date)}`,
+    `Booking ${invoice.bookingReference}`,
+  ].forEach((text, index) =>
+    texts.push({ text, x: right, y: 92 + index * 14, align: "right" }),
+  );
+
+  // Billing details and the supply take as many lines as they need
+  let y = 190;
+  texts.push({ text: "Billed to", x: left, y, bold: true });
+  y += 2;
+  const billedTo = [
+    customer.name,
+    ...customer.address,
+    customer.email,
+    customer.phone,
+  ];
+  for (const text of billedTo) {
+    y += 14;
+    texts.push({ text, x: left, y });
+  }
+  y += 18;
+  for (const text of wrapText(invoice.supply, right - left)) {
+    y += 14;
+    texts.push({ text, x: left, y });
+  }
+
+  // Lines table
+  y += 35;
+  texts.push({ text: "DESCRIPTION", x: left, y, size: 8, bold: true });
+  texts.push({
+    text: "VAT RATE",
+    x: right - 110,
+    y,
+    size: 8,
+    bold: true,
+    align: "right",
+  });
+  texts.push({ text: "NET", x: right, y, size: 8, bold: true, align: "right" });
+  rules.push({ x1: left, y1: y + 6, x2: right, y2: y + 6 });
+  for (const line of invoice.lines) {
+    y += 22;
+    texts.push({ text: line.description, x: left, y });
+    texts.push({
+      text: formatVatRate(line.vatRate),
+      x: right - 110,
+      y,
+      align: "right",
+    });
+    texts.push({
+      text: formatInvoiceAmount(line.amount),
+      x: right,
+      y,
+      align: "right",
+    });
+    rules.push({ x1: left, y1: y + 8, x2: right, y2: y + 8 });
+  }
+
+  const totals = getTotals(invoice);
+  totals.forEach(([label, amount], index) => {
+    const isTotal = index === totals.length - 1;
+    y += 22;
+    if (isTotal)
+      rules.push({ x1: left, y1: y - 14, x2: right, y2: y - 14, width: 1.5 });
+    texts.push({ text: label, x: left, y, bold: isTotal });
+    texts.push({
+      text: formatInvoiceAmount(amount),
+      x: right,
+      y,
+      bold: isTotal,
+      align: "right",
+    });
+  });
+
+  texts.push({
+    text: getPaymentNote(invoice),
+    x: left,
+    y: y + 40,
+    size: 9,
+  });
+
+  return createPdf({ texts, rules });
+};
@@ -0,0 +1,61 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/**
+ * JSON File Stores (server-side)
+ *
+ * Small append-mostly collections (bookings, call back requests) are kept as
+ * JSON arrays under .data/ so the app runs without a database. Each store's
+ * file can be moved with its own environment variable, e.g. to a temp file in
+ * tests.
+ *
+ * Writes go to a temporary file that is renamed into place, and updates to
+ * the same file are queued so concurrent requests cannot overwrite each
+ * other within a single server process.
+ */
+
+// Resolve a store file: the env override if set, else .data/<fileName>
+export const getDataFile = (envVar: string, fileName: string): string =>
+  process.env[envVar] ?? path.join(process.cwd(), ".data", fileName);
+
+// Read a JSON array; a missing file is an empty store
+export const readJsonList = async <T>(file: string): Promise<T[]> => {
+  try {
+    const items: unknown = JSON.parse(await fs.readFile(file, "utf8"));
+    return Array.isArray(items) ? (items as T[]) : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+};
+
+const writeJsonList = async <T>(file: string, items: T[]): Promise<void> => {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tempFile, `${JSON.stringify(items, null, 2)}\n`);
+  await fs.rename(tempFile, file);
+};
+
+// Pending update per file, so read-modify-write cycles run one at a time
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Read, modify and write a JSON array as one queued step.
+ *
+ * @param update - Receives the current items; returns the new items and a
+ *   result to hand back to the caller
+ */
+export const updateJsonList = <T, R>(
+  file: string,
+  update: (items: T[]) => { items: T[]; result: R },
+): Promise<R> => {
+  const run = (queues.get(file) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      const { items, result } = update(await readJsonList<T>(file));
+      await writeJsonList(file, items);
+      return result;
+    });
+  queues.set(file, run);
+  return run;
+};
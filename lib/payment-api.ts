@@ -0,0 +1,75 @@
+import type { CardDetails, PaymentIntent } from "@/types";
+import type { StepErrors } from "./booking-validation";
+
+/**
+ * Client Payment Requests
+ *
+ * Pays for a placed booking through the app's /api/payments routes: start a
+ * payment for the booking, confirm it with a card and, when the card issuer
+ * asks, report the result of the 3-D Secure check.
+ */
+
+/**
+ * Error surfaced to the UI when a payment request fails. A declined card is
+ * not an error: the intent comes back with a failureReason.
+ */
+export class PaymentApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly errors: StepErrors = {}, // Per-field problems (400)
+  ) {
+    super(message);
+    this.name = "PaymentApiError";
+  }
+}
+
+const postPayment = async (
+  path: string,
+  payload: unknown,
+): Promise<PaymentIntent> => {
+  let response: Response;
+  try {
+    response = await fetch(path, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    throw new PaymentApiError(
+      "We couldn't reach our payment system - please check your connection and try again",
+    );
+  }
+  const body: unknown = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error = body as { error?: string; errors?: StepErrors } | null;
+    throw new PaymentApiError(
+      error?.error ?? "We couldn't take your payment - please try again",
+      response.status,
+      error?.errors,
+    );
+  }
+
+  return body as PaymentIntent;
+};
+
+// Start paying for a booking (the server sets the amount)
+export const createPayment = (reference: string): Promise<PaymentIntent> =>
+  postPayment("/api/payments", { reference });
+
+export const confirmPayment = (
+  intentId: string,
+  card: CardDetails,
+): Promise<PaymentIntent> =>
+  postPayment(`/api/payments/${encodeURIComponent(intentId)}/confirm`, {
+    card,
+  });
+
+export const completePaymentChallenge = (
+  intentId: string,
+  authenticated: boolean,
+): Promise<PaymentIntent> =>
+  postPayment(`/api/payments/${encodeURIComponent(intentId)}/challenge`, {
+    authenticated,
+  });
@@ -0,0 +1,101 @@
+import type { CardDetails, PaymentIntent, PaymentWebhookEvent } from "@/types";
+import { createFakePaymentProvider } from "./fake-payment-provider";
+
+/**
+ * Payment Providers (server-side)
+ *
+ * Every payment goes through a PaymentProvider, so the booking flow doesn't
+ * depend on any one gateway. A payment is an intent for one booking's total
+ * that moves through these states:
+ *
+ *   requires_payment_method → (confirm with a card)
+ *     → succeeded
+ *     → requires_action → (customer authenticates with their bank, 3-D Secure)
+ *         → succeeded, or back to requires_payment_method
+ *     → requires_payment_method again if the card is declined
+ *   succeeded → refunded (once the whole amount has been refunded)
+ *   requires_payment_method or requires_action → canceled (abandoned)
+ *
+ * The provider is chosen with PAYMENT_PROVIDER. Only "fake" is available so
+ * far: a deterministic stand-in for development and tests (see
+ * fake-payment-provider). It's the default outside production; a production
+ * server must name its provider, so it never takes fake payments by
+ * mistake. A real gateway would collect card details in its own hosted
+ * fields and confirm with a token rather than the raw card.
+ */
+
+// What an intent is for
+export interface CreatePaymentIntentRequest {
+  reference: string; // Booking reference
+  amount: number; // Pence
+  currency: string; // ISO 4217, lower case
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent: (request: CreatePaymentIntentRequest) => Promise<PaymentIntent>;
+  getIntent: (intentId: string) => Promise<PaymentIntent>;
+  // Pay with a card; may succeed, be declined or need authentication
+  confirmIntent: (
+    intentId: string,
+    card: CardDetails,
+  ) => Promise<PaymentIntent>;
+  // Result of the 3-D Secure challenge for an intent in requires_action
+  completeChallenge: (
+    intentId: string,
+    authenticated: boolean,
+  ) => Promise<PaymentIntent>;
+  // Abandon a payment that hasn't succeeded, so it can't be paid later
+  cancelIntent: (intentId: string) => Promise<PaymentIntent>;
+  // Refund some (or by default all) of what's left of a successful payment
+  refund: (intentId: string, amount?: number) => Promise<PaymentIntent>;
+  // Check a webhook came from the provider and read the event it carries
+  parseWebhook: (
+    body: string,
+    signature: string | null,
+  ) => Promise<PaymentWebhookEvent>;
+}
+
+// Why a provider refused a request
+export type PaymentProviderErrorCode =
+  | "not_found"
+  | "invalid_card"
+  | "invalid_state"
+  | "invalid_amount"
+  | "invalid_signature";
+
+/**
+ * Error raised by a provider when a request can't be carried out. Declines
+ * aren't errors: the intent comes back with a failureReason instead.
+ */
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PaymentProviderErrorCode,
+  ) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
+
+// HTTP status for a provider error
+export const getPaymentErrorStatus = (error: PaymentProviderError): number =>
+  ({
+    not_found: 404,
+    invalid_card: 400,
+    invalid_state: 409,
+    invalid_amount: 400,
+    invalid_signature: 401,
+  })[error.code];
+
+// The configured provider
+export const getPaymentProvider = (): PaymentProvider => {
+  const name =
+    process.env.PAYMENT_PROVIDER ||
+    (process.env.NODE_ENV !== "production" ? "fake" : null);
+  if (!name) {
+    throw new Error("PAYMENT_PROVIDER must be set in production");
+  }
+  if (name === "fake") return createFakePaymentProvider();
+  throw new Error(`Unknown PAYMENT_PROVIDER "${name}"`);
+};
@@ -0,0 +1,138 @@
+/**
+ * Minimal PDF Writer (server-side)
+ *
+ * Just enough PDF to lay out a one-page A4 document of text and rules in the
+ * standard Helvetica fonts, which every PDF reader has built in, so nothing
+ * needs embedding. Text is written in WinAnsi encoding: "£" and accented
+ * Latin letters work, anything else is replaced with "?".
+ *
+ * Coordinates are points from the top-left corner of the page (PDF itself
+ * measures from the bottom-left).
+ */
+
+export const A4_WIDTH = 595;
+export const A4_HEIGHT = 842;
+
+export interface PdfText {
+  text: string;
+  x: number;
+  y: number; // Baseline
+  size?: number; // Points (default 10)
+  bold?: boolean;
+  align?: "left" | "right"; // Right-aligned text ends at x
+}
+
+// Horizontal or vertical rule
+export interface PdfRule {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  width?: number; // Points (default 0.5)
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  rules?: PdfRule[];
+}
+
+// Helvetica advance widths (per 1000 em) for the characters used in
+// amounts; other characters use an average for their kind
+const CHAR_WIDTHS: Record<string, number> = {
+  " ": 278,
+  ".": 278,
+  ",": 278,
+  "-": 333,
+  "(": 333,
+  ")": 333,
+  "%": 889,
+  "£": 556,
+  "/": 278,
+};
+
+// Approximate width of a string in points, for right alignment
+export const measureText = (text: string, size: number, bold = false) =>
+  ([...text].reduce((width, char) => {
+    if (char in CHAR_WIDTHS) return width + CHAR_WIDTHS[char];
+    if (/\d/.test(char)) return width + 556;
+    if (/[A-Z]/.test(char)) return width + 667;
+    return width + 500;
+  }, 0) *
+    size *
+    (bold ? 1.05 : 1)) /
+  1000;
+
+// Break text into lines no wider than maxWidth points, at spaces (a single
+// word wider than that gets a line of its own)
+export const wrapText = (
+  text: string,
+  maxWidth: number,
+  size = 10,
+  bold = false,
+): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Keep WinAnsi-encodable characters and escape PDF string delimiters
+const encodeText = (text: string): string =>
+  text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+
+const round = (value: number): string => String(Math.round(value * 100) / 100);
+
+const drawText = ({ text, x, y, size = 10, bold = false, align }: PdfText) => {
+  const left = align === "right" ? x - measureText(text, size, bold) : x;
+  return `BT /${bold ? "F2" : "F1"} ${size} Tf ${round(left)} ${round(A4_HEIGHT - y)} Td (${encodeText(text)}) Tj ET`;
+};
+
+const drawRule = ({ x1, y1, x2, y2, width = 0.5 }: PdfRule) =>
+  `${width} w ${round(x1)} ${round(A4_HEIGHT - y1)} m ${round(x2)} ${round(A4_HEIGHT - y2)} l S`;
+
+/**
+ * Build a one-page A4 PDF.
+ *
+ * @returns The file's bytes
+ */
+export const createPdf = ({ texts, rules = [] }: PdfPage): Buffer => {
+  const content = [...rules.map(drawRule), ...texts.map(drawText)].join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Every character is single-byte in latin1, so string offsets are bytes
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
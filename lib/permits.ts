@@ -0,0 +1,73 @@
+import { DEFAULT_PERMIT_TERMS, getCouncilForDistrict } from "@/data/councils";
+import type { Skip, SkipPlacement } from "@/types";
+
+/**
+ * Skip Placement and Permits
+ *
+ * Skips flagged allowed_on_road = false can only go on private land (a
+ * driveway or similar). Any other skip may go on the road, which needs a
+ * council permit added to the order as its own line. The permit's fee,
+ * notice period and maximum duration come from the council covering the
+ * customer's postcode district (see data/councils.ts).
+ */
+
+export interface PermitQuote {
+  councilName: string | null; // Null when default terms apply
+  fee: number; // Pence for the whole hire
+  noticeDays: number;
+  maxDays: number;
+  withinMaxDuration: boolean; // Whether one permit covers the hire
+}
+
+export const placementOptions: { value: SkipPlacement; label: string }[] = [
+  { value: "private", label: "On my private property/driveway" },
+  { value: "road", label: "On the road/public highway" },
+];
+
+// Whether a skip may be placed where the customer wants it
+export const isPlacementAllowed = (
+  skip: Pick<Skip, "allowed_on_road">,
+  placement: SkipPlacement,
+): boolean => placement === "private" || skip.allowed_on_road;
+
+/**
+ * Quote a road permit for a district and hire length.
+ *
+ * @param district - Customer outward code, e.g. "NR32"
+ * @param hireDays - Length of the hire the permit must cover
+ */
+export const getPermitQuote = (
+  district: string,
+  hireDays: number,
+): PermitQuote => {
+  const council = getCouncilForDistrict(district);
+  const terms = council ?? DEFAULT_PERMIT_TERMS;
+  const extraWeeks = Math.ceil(Math.max(0, hireDays - terms.includedDays) / 7);
+
+  return {
+    councilName: council?.name ?? null,
+    fee: terms.baseFee + extraWeeks * terms.extensionFeePerWeek,
+    noticeDays: terms.noticeDays,
+    maxDays: terms.maxDays,
+    withinMaxDuration: hireDays <= terms.maxDays,
+  };
+};
+
+// Permit fee in pence for a placement (0 on private land)
+export const getPermitFee = (
+  placement: SkipPlacement | null,
+  district: string,
+  hireDays: number,
+): number =>
+  placement === "road" ? getPermitQuote(district, hireDays).fee : 0;
+
+// Days of notice needed before delivery (0 on private land)
+export const getPermitNoticeDays = (
+  placement: SkipPlacement | null,
+  district: string,
+): number =>
+  placement === "road" ? getPermitQuote(district, 0).noticeDays : 0;
+
+// Bookable skips that can go on the road, for customers who need one
+export const getRoadAlternatives = (skips: Skip[]): Skip[] =>
+  skips.filter((skip) => skip.allowed_on_road && !skip.forbidden);
@@ -0,0 +1,19 @@
+/**
+ * UK Phone Number Helpers
+ *
+ * Accepts the ways customers usually type numbers ("07700 900123",
+ * "+44 7700 900123", "(01502) 123456") and normalises them to the national
+ * format with a leading 0 and no spaces.
+ */
+
+// Normalise a UK phone number, or return null if it isn't one
+export const normaliseUkPhone = (input: string): string | null => {
+  const digits = input.replace(/[\s()-]/g, "");
+  const national = digits.startsWith("+44")
+    ? `0${digits.slice(3).replace(/^0/, "")}`
+    : digits.startsWith("0044")
+      ? `0${digits.slice(4).replace(/^0/, "")}`
+      : digits;
+
+  return /^0[1-9]\d{8,9}$/.test(national) ? national : null;
+};
@@ -0,0 +1,59 @@
+import type { BookingStats, Skip } from "@/types";
+
+/**
+ * Skip Popularity
+ *
+ * Popularity is the share of recent bookings in the customer's postcode area
+ * that went to each size. Areas with few bookings would swing wildly, so the
+ * catalogue's popularity acts as a prior worth PRIOR_WEIGHT bookings:
+ *
+ *   popularity = (bookings for size + prior × PRIOR_WEIGHT)
+ *              / (total bookings + PRIOR_WEIGHT × sum of priors)
+ *
+ * With no bookings this reduces to the catalogue ranking; as bookings grow
+ * the real data takes over. The most popular bookable size gets the badge.
+ */
+
+// How many bookings the catalogue prior is worth
+const PRIOR_WEIGHT = 20;
+
+export const MOST_POPULAR_BADGE = "Most Popular";
+
+/**
+ * Replace catalogue popularity with booking-derived popularity and assign
+ * the "Most Popular" badge to the top bookable skip (ties go to the smaller
+ * size).
+ */
+export const applyPopularity = (skips: Skip[], stats: BookingStats): Skip[] => {
+  const priorTotal = skips.reduce((sum, skip) => sum + skip.popularity, 0);
+  const denominator = stats.total + PRIOR_WEIGHT * priorTotal;
+
+  const ranked = skips.map((skip) => ({
+    ...skip,
+    popularity:
+      denominator > 0
+        ? ((stats.bySize[skip.size] ?? 0) + skip.popularity * PRIOR_WEIGHT) /
+          denominator
+        : 0,
+  }));
+
+  const top = ranked
+    .filter((skip) => !skip.forbidden)
+    .reduce<Skip | null>(
+      (best, skip) =>
+        !best ||
+        skip.popularity > best.popularity ||
+        (skip.popularity === best.popularity && skip.size < best.size)
+          ? skip
+          : best,
+      null,
+    );
+
+  return ranked.map((skip) =>
+    skip === top && skip.popularity > 0
+      ? { ...skip, badge: MOST_POPULAR_BADGE }
+      : skip.badge === MOST_POPULAR_BADGE
+        ? { ...skip, badge: undefined }
+        : skip,
+  );
+};
@@ -0,0 +1,131 @@
+import type { ParsedPostcode, PostcodeParseResult } from "@/types";
+
+/**
+ * UK Postcode Parsing
+ *
+ * Normalises and validates postcodes entered in PostcodeStep and splits them
+ * into the parts the rest of the app needs: the outward code drives the skip
+ * catalogue lookup and the area letters drive regional fallback.
+ *
+ * Format reference (BS 7666): outward "A9", "A99", "AA9", "AA99", "A9A" or
+ * "AA9A", then a space and an inward "9AA". Special cases handled:
+ * - GIR 0AA (Girobank)
+ * - BFPO 1 to BFPO 9999 (British Forces Post Office)
+ */
+
+// Outward code patterns with the letter restrictions used by Royal Mail
+const OUTWARD_PATTERN =
+  "(?:[A-PR-UWYZ][0-9][0-9]?|[A-PR-UWYZ][A-HK-Y][0-9][0-9]?|[A-PR-UWYZ][0-9][A-HJKPSTUW]|[A-PR-UWYZ][A-HK-Y][0-9][ABEHMNPRVWXY])";
+
+// Inward code: sector digit plus two unit letters (never C, I, K, M, O or V)
+const INWARD_PATTERN = "[0-9][ABD-HJLNP-UW-Z]{2}";
+
+const FULL_POSTCODE = new RegExp(`^(${OUTWARD_PATTERN}) ?(${INWARD_PATTERN})$`);
+const OUTWARD_ONLY = new RegExp(`^${OUTWARD_PATTERN}$`);
+const GIRO_POSTCODE = /^GIR ?0AA$/;
+const BFPO_POSTCODE = /^BFPO ?([0-9]{1,4})$/;
+
+// Collapse whitespace and upper-case, e.g. " nr32   1ab " → "NR32 1AB"
+export const normalisePostcode = (input: string): string =>
+  input.trim().toUpperCase().replace(/\s+/g, " ");
+
+// Friendly explanation of why input that failed every pattern is wrong
+const describeInvalidPostcode = (compact: string): string => {
+  if (/[^A-Z0-9]/.test(compact)) {
+    return "Postcodes can only contain letters and numbers";
+  }
+  if (OUTWARD_ONLY.test(compact)) {
+    return `Please enter your full postcode, including the last part (e.g. ${compact} 1AB)`;
+  }
+  if (compact.length < 5) {
+    return "That postcode looks too short";
+  }
+  if (compact.length > 7) {
+    return "That postcode looks too long";
+  }
+  if (!/^[A-Z]/.test(compact)) {
+    return "Postcodes start with a letter";
+  }
+  if (!/[0-9][A-Z]{2}$/.test(compact)) {
+    return "Postcodes end with a number followed by two letters";
+  }
+  return "That doesn't look like a valid UK postcode";
+};
+
+/**
+ * Parse and validate a full UK postcode.
+ *
+ * @param input - Raw user input, any case or spacing
+ * @returns The parsed postcode, or a customer-facing error message
+ */
+export const parsePostcode = (input: string): PostcodeParseResult => {
+  const normalised = normalisePostcode(input);
+  if (!normalised) {
+    return { valid: false, error: "Please enter your postcode" };
+  }
+  const compact = normalised.replace(/ /g, "");
+
+  if (GIRO_POSTCODE.test(normalised)) {
+    return {
+      valid: true,
+      postcode: {
+        postcode: "GIR 0AA",
+        outward: "GIR",
+        inward: "0AA",
+        area: "GIR",
+        sector: "GIR 0",
+        kind: "giro",
+      },
+    };
+  }
+
+  const bfpo = normalised.match(BFPO_POSTCODE);
+  if (bfpo) {
+    return {
+      valid: true,
+      postcode: {
+        postcode: `BFPO ${bfpo[1]}`,
+        outward: "BFPO",
+        inward: bfpo[1],
+        area: "BFPO",
+        sector: "BFPO",
+        kind: "bfpo",
+      },
+    };
+  }
+
+  const match = compact.match(FULL_POSTCODE);
+  if (!match) {
+    return { valid: false, error: describeInvalidPostcode(compact) };
+  }
+
+  const [, outward, inward] = match;
+  const postcode: ParsedPostcode = {
+    postcode: `${outward} ${inward}`,
+    outward,
+    inward,
+    area: outward.match(/^[A-Z]+/)![0],
+    sector: `${outward} ${inward[0]}`,
+    kind: "standard",
+  };
+  return { valid: true, postcode };
+};
+
+/**
+ * Extract the outward code and area from either a full postcode or an
+ * outward code on its own (e.g. "NR32" from a deep link).
+ *
+ * @returns null when the input is neither
+ */
+export const parseOutwardCode = (
+  input: string,
+): Pick<ParsedPostcode, "outward" | "area"> | null => {
+  const parsed = parsePostcode(input);
+  if (parsed.valid) {
+    return { outward: parsed.postcode.outward, area: parsed.postcode.area };
+  }
+
+  const compact = normalisePostcode(input).replace(/ /g, "");
+  if (!OUTWARD_ONLY.test(compact)) return null;
+  return { outward: compact, area: compact.match(/^[A-Z]+/)![0] };
+};
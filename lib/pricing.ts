@@ -0,0 +1,127 @@
+import type { PriceBreakdown, PriceLine, SkipApiData } from "@/types";
+
+/**
+ * Pricing Engine
+ *
+ * The single place skip prices are calculated. Everything is done in integer
+ * pence so the parts of a breakdown always add up to its total.
+ *
+ * Rounding rules:
+ * - Supplier amounts arrive in pounds and are converted to pence once,
+ *   rounding half away from zero (Math.round on the absolute value).
+ * - VAT is charged on base + surcharges - discounts + transport as a single
+ *   amount and rounded half-up to the nearest penny. It is never calculated
+ *   per line. Transport is part of the hire, so it's standard-rated too.
+ * - Council permit fees are passed on at cost (a disbursement), sit outside
+ *   the scope of VAT and are added after it.
+ * - The total is the exact sum of the rounded parts; nothing is rounded again.
+ */
+
+// Inputs to calculatePriceBreakdown, all amounts in pence
+export interface PriceInputs {
+  base: number;
+  vatRate: number;
+  transport?: number;
+  permit?: number;
+  surcharges?: PriceLine[];
+  discounts?: PriceLine[];
+}
+
+// Convert a pound amount from the supplier into integer pence
+export const poundsToPence = (pounds: number): number =>
+  Math.sign(pounds) * Math.round(Math.abs(pounds) * 100);
+
+// Sum the amounts of a list of price lines
+const sumLines = (lines: PriceLine[]): number =>
+  lines.reduce((total, line) => total + line.amount, 0);
+
+/**
+ * Calculate an itemised price breakdown.
+ *
+ * @throws RangeError if any amount is not a whole number of pence, or the
+ *   discounts exceed base + surcharges
+ */
+export const calculatePriceBreakdown = ({
+  base,
+  vatRate,
+  transport = 0,
+  permit = 0,
+  surcharges = [],
+  discounts = [],
+}: PriceInputs): PriceBreakdown => {
+  const amounts = [
+    base,
+    transport,
+    permit,
+    ...[...surcharges, ...discounts].map((l) => l.amount),
+  ];
+  if (!amounts.every(Number.isInteger)) {
+    throw new RangeError("Price amounts must be whole pence");
+  }
+
+  const hire = base + sumLines(surcharges) - sumLines(discounts);
+  if (hire < 0) {
+    throw new RangeError("Discounts cannot exceed the price they apply to");
+  }
+  const vatable = hire + transport;
+  const vat = Math.round((vatable * vatRate) / 100);
+
+  return {
+    base,
+    surcharges,
+    discounts,
+    vatRate,
+    vat,
+    transport,
+    permit,
+    total: vatable + vat + permit,
+  };
+};
+
+// Price breakdown for a supplier record, optionally with extras applied
+// (overweight or extra-day surcharges, discounts, a permit fee)
+export const priceBreakdownFromApiData = (
+  apiData: SkipApiData,
+  extras: Pick<PriceInputs, "surcharges" | "discounts" | "permit"> = {},
+): PriceBreakdown =>
+  calculatePriceBreakdown({
+    base: poundsToPence(apiData.price_before_vat),
+    vatRate: apiData.vat,
+    transport: poundsToPence(apiData.transport_cost ?? 0),
+    ...extras,
+  });
+
+// Total of the VAT-able parts plus VAT (what "price inc. VAT" means on a card)
+export const priceWithVat = (breakdown: PriceBreakdown): number =>
+  breakdown.total - breakdown.permit;
+
+/**
+ * Flatten a breakdown into ordered display lines (discounts negative, empty
+ * transport/permit omitted). The line amounts always sum to breakdown.total.
+ */
+export const getPriceBreakdownLines = (
+  breakdown: PriceBreakdown,
+): PriceLine[] => [
+  { label: "Base price", amount: breakdown.base },
+  ...breakdown.surcharges,
+  ...breakdown.discounts.map((line) => ({ ...line, amount: -line.amount })),
+  ...(breakdown.transport > 0
+    ? [{ label: "Transport cost", amount: breakdown.transport }]
+    : []),
+  { label: `VAT (${breakdown.vatRate}%)`, amount: breakdown.vat },
+  ...(breakdown.permit > 0
+    ? [{ label: "Road permit", amount: breakdown.permit }]
+    : []),
+];
+
+/**
+ * Format pence for display: whole pounds drop the pence ("£334"), anything
+ * else shows two decimal places ("£333.60").
+ */
+export const formatPrice = (pence: number): string => {
+  const pounds = Math.abs(pence) / 100;
+  return `${pence < 0 ? "-" : ""}£${pounds.toLocaleString("en-GB", {
+    minimumFractionDigits: pence % 100 === 0 ? 0 : 2,
+    maximumFractionDigits: 2,
+  })}`;
+};
@@ -0,0 +1,37 @@
+import type { PriceBreakdown, Skip, SkipPlacement } from "@/types";
+import { priceBreakdownFromApiData } from "./pricing";
+import { hirePeriodSurcharges } from "./hire-period";
+import { estimateOverweight, overweightSurcharges } from "./weight-estimate";
+import { getPermitFee } from "./permits";
+
+/**
+ * Skip Quotes
+ *
+ * Combines a skip's published price with the customer's choices into one
+ * PriceBreakdown. Components and the booking flow price a skip through here
+ * so every screen applies the same extras in the same order.
+ */
+
+export interface QuoteOptions {
+  hireDays?: number; // Requested hire length (defaults to the standard period)
+  estimatedTonnes?: number; // Expected load for skips charged per tonne
+  placement?: SkipPlacement | null; // Road placement adds a permit fee
+  district?: string; // Customer outward code, for the council permit fee
+}
+
+export const quoteSkip = (
+  skip: Skip,
+  {
+    hireDays = skip.hire_period_days,
+    estimatedTonnes = 0,
+    placement = null,
+    district = "",
+  }: QuoteOptions = {},
+): PriceBreakdown =>
+  priceBreakdownFromApiData(skip, {
+    surcharges: [
+      ...hirePeriodSurcharges(skip, hireDays),
+      ...overweightSurcharges(estimateOverweight(skip, estimatedTonnes)),
+    ],
+    permit: getPermitFee(placement, district, hireDays),
+  });
@@ -0,0 +1,123 @@
+import { BAGS_PER_YARD, getProjectType } from "@/data/project-types";
+import { itemCatalogue } from "@/data/item-catalogue";
+import type { Skip } from "@/types";
+
+/**
+ * Project-Based Size Recommender
+ *
+ * Estimates how much waste a project makes (in bin bags, the unit skip
+ * capacities are quoted in) and picks the smallest bookable skip whose
+ * capacity holds it. Confidence reflects the spare room left and whether the
+ * skip's use cases mention this kind of project; the next size up is always
+ * offered as a safety option.
+ */
+
+export interface ProjectDetails {
+  projectTypeId: string;
+  units: number; // Rooms, bathrooms, bedrooms... per the project type
+  binBags: number; // Bagged waste on top of the project estimate
+  bulkyItems: Record<string, number>; // Count per item catalogue id
+}
+
+export type RecommendationConfidence = "high" | "medium" | "low";
+
+export interface SizeRecommendation {
+  estimatedBags: number;
+  index: number; // Index into the skips passed in
+  saferIndex: number | null; // Next bookable size up, if any
+  confidence: RecommendationConfidence;
+  reasons: string[]; // Customer-facing notes behind the pick
+}
+
+// Headroom (capacity ÷ estimate) treated as comfortable or tight
+const COMFORTABLE_HEADROOM = 1.25;
+const TIGHT_HEADROOM = 1.1;
+
+/**
+ * Read the bag capacity from a skip's capacity text ("30-40 bin bags"),
+ * taking the lower figure. Falls back to the size in yards.
+ */
+export const getBagCapacity = (skip: Skip): number => {
+  const match = skip.capacity.match(/(\d+)/);
+  return match ? Number(match[1]) : skip.size * BAGS_PER_YARD;
+};
+
+// Estimated waste for the project, in bin bags
+export const estimateProjectBags = (details: ProjectDetails): number => {
+  const project = getProjectType(details.projectTypeId);
+  const projectYards = project ? project.yardsPerUnit * details.units : 0;
+  const bulkyYards = itemCatalogue.reduce(
+    (sum, item) => sum + item.yards * (details.bulkyItems[item.id] ?? 0),
+    0,
+  );
+  return (
+    Math.ceil((projectYards + bulkyYards) * BAGS_PER_YARD) + details.binBags
+  );
+};
+
+// Whether a skip's use cases or bestFor list mention the project
+const suitsProject = (skip: Skip, keywords: string[]): boolean =>
+  [...skip.useCases.map((useCase) => useCase.type), ...skip.bestFor].some(
+    (text) => keywords.some((keyword) => text.toLowerCase().includes(keyword)),
+  );
+
+/**
+ * Recommend a skip for a project. Forbidden skips are never picked. Returns
+ * null when there is nothing to estimate or no bookable skip.
+ *
+ * @param skips - Skips on offer, in size order
+ * @param details - The customer's answers
+ */
+export const recommendSkipSize = (
+  skips: Skip[],
+  details: ProjectDetails,
+): SizeRecommendation | null => {
+  const estimatedBags = estimateProjectBags(details);
+  const bookable = skips
+    .map((skip, index) => ({ skip, index }))
+    .filter(({ skip }) => !skip.forbidden);
+  if (estimatedBags <= 0 || bookable.length === 0) return null;
+
+  const fitPosition = bookable.findIndex(
+    ({ skip }) => getBagCapacity(skip) >= estimatedBags,
+  );
+  const position = fitPosition === -1 ? bookable.length - 1 : fitPosition;
+  const { skip, index } = bookable[position];
+  const safer = bookable[position + 1];
+
+  const capacity = getBagCapacity(skip);
+  const headroom = capacity / estimatedBags;
+  const keywords = getProjectType(details.projectTypeId)?.keywords ?? [];
+  const typicalChoice = suitsProject(skip, keywords);
+
+  const reasons = [
+    `We estimate around ${estimatedBags} bin bags of waste; the ${skip.name} holds about ${capacity}.`,
+  ];
+  let confidence: RecommendationConfidence;
+  if (fitPosition === -1) {
+    confidence = "low";
+    reasons.push(
+      "That's more than our largest skip holds, so you may need a second skip or an exchange.",
+    );
+  } else if (headroom < TIGHT_HEADROOM) {
+    confidence = "low";
+    reasons.push(
+      "It would be a tight fit, so consider the next size up if you're unsure.",
+    );
+  } else if (headroom >= COMFORTABLE_HEADROOM && typicalChoice) {
+    confidence = "high";
+  } else {
+    confidence = "medium";
+  }
+  if (typicalChoice) {
+    reasons.push("It's a popular size for this kind of project.");
+  }
+
+  return {
+    estimatedBags,
+    index,
+    saferIndex: safer ? safer.index : null,
+    confidence,
+    reasons,
+  };
+};
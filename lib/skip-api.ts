@@ -0,0 +1,78 @@
+import type { Skip, SkipCatalogueResponse } from "@/types";
+import { toSkipData } from "@/data/skip-data";
+import { applyPopularity } from "./popularity";
+import { validateSkipApiPayload } from "./skip-validation";
+
+/**
+ * Client Skip Data Layer
+ *
+ * Fetches the price set resolved for a location by the app's own /api/skips
+ * route (district, postcode area or regional default), quarantines records
+ * that fail SkipApiData validation and transforms the rest into
+ * display-ready Skip objects via transformApiDataToSkip, ranked by recent
+ * bookings in the customer's area.
+ */
+
+// Location used to query the skip catalogue
+export interface SkipQuery {
+  postcode: string;
+  area?: string;
+}
+
+// Skips ready for display plus how many supplier records were quarantined
+export interface SkipLoadResult {
+  skips: Skip[];
+  catalogue: Omit<SkipCatalogueResponse, "records">; // Which price set matched
+  quarantinedCount: number;
+}
+
+/**
+ * Error surfaced to the UI when skips cannot be loaded
+ */
+export class SkipApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly notServed = false, // True when no price set covers the postcode
+  ) {
+    super(message);
+    this.name = "SkipApiError";
+  }
+}
+
+/**
+ * Load the skips available for a location.
+ *
+ * @param query - Postcode and optional area to look up
+ * @param signal - Optional abort signal (used when the postcode changes mid-request)
+ */
+export const fetchSkips = async (
+  { postcode, area = "" }: SkipQuery,
+  signal?: AbortSignal,
+): Promise<SkipLoadResult> => {
+  const params = new URLSearchParams({ postcode, area });
+  const response = await fetch(`/api/skips?${params}`, { signal });
+  const body: unknown = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const error = body as { error?: string; notServed?: boolean } | null;
+    throw new SkipApiError(
+      error?.error ?? "We couldn't load skips for this postcode",
+      response.status,
+      error?.notServed === true,
+    );
+  }
+
+  const { records, ...catalogue } = (body ?? {}) as SkipCatalogueResponse;
+  if (!Array.isArray(records)) {
+    throw new SkipApiError("Received an unexpected response from the server");
+  }
+
+  const report = validateSkipApiPayload(records);
+
+  return {
+    skips: applyPopularity(toSkipData(report.valid), catalogue.bookingStats),
+    catalogue,
+    quarantinedCount: report.quarantined.length,
+  };
+};
@@ -0,0 +1,93 @@
+import type {
+  CatalogueMatchLevel,
+  ParsedPostcode,
+  SkipCatalogueResponse,
+} from "@/types";
+import { getServiceRegion } from "@/data/service-areas";
+import { fetchUpstreamSkips } from "./skip-upstream";
+
+/**
+ * Skip Price Catalogue Lookup (server-side)
+ *
+ * Resolves the price set for a customer's postcode by walking a fallback chain
+ * against the supplier:
+ *
+ *   1. Full district  - the outward code, e.g. "NR32"
+ *   2. Postcode area  - the leading letters, e.g. "NR"
+ *   3. Regional default - the default district of the region serving the area
+ *
+ * The first step that returns any records wins. When no step matches the
+ * postcode is "not served" and null is returned.
+ */
+
+// Outward code and area letters, as extracted by parseOutwardCode
+type DistrictLookup = Pick<ParsedPostcode, "outward" | "area">;
+
+// One step of the fallback chain
+interface CatalogueCandidate {
+  match: CatalogueMatchLevel;
+  postcode: string;
+  area: string;
+  region: string | null;
+}
+
+// Build the ordered, de-duplicated list of lookups for a postcode
+const buildCandidates = (
+  { outward: outwardCode, area: postcodeArea }: DistrictLookup,
+  area: string,
+): CatalogueCandidate[] => {
+  const region = getServiceRegion(postcodeArea);
+  const regionName = region?.name ?? null;
+
+  const candidates: CatalogueCandidate[] = [
+    { match: "district", postcode: outwardCode, area, region: regionName },
+  ];
+  if (postcodeArea && postcodeArea !== outwardCode) {
+    candidates.push({
+      match: "area",
+      postcode: postcodeArea,
+      area: "",
+      region: regionName,
+    });
+  }
+  if (region && region.defaultDistrict !== outwardCode) {
+    candidates.push({
+      match: "region",
+      postcode: region.defaultDistrict,
+      area: region.area,
+      region: regionName,
+    });
+  }
+
+  return candidates;
+};
+
+/**
+ * Resolve the skip price set serving a postcode.
+ *
+ * @param district - Outward code and area letters from parseOutwardCode
+ * @param area - Optional supplier area name for the district lookup
+ * @returns The matched price set, or null when the postcode is not served
+ */
+export const resolveSkipCatalogue = async (
+  district: DistrictLookup,
+  area = "",
+): Promise<Omit<SkipCatalogueResponse, "bookingStats"> | null> => {
+  for (const candidate of buildCandidates(district, area)) {
+    const records = await fetchUpstreamSkips(
+      candidate.postcode,
+      candidate.area,
+    );
+    if (records.length > 0) {
+      return {
+        outwardCode: district.outward,
+        match: candidate.match,
+        pricePostcode: candidate.postcode,
+        region: candidate.region,
+        records,
+      };
+    }
+  }
+
+  return null;
+};
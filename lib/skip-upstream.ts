@@ -0,0 +1,80 @@
+/**
+ * Upstream Skip Supplier Client (server-side)
+ *
+ * Fetches raw skip records for a location from the supplier API. The base URL
+ * is read from SKIP_API_BASE_URL so development and tests can point the app at
+ * a local stand-in server instead of the live feed, e.g.
+ *
+ *   SKIP_API_BASE_URL=http://localhost:4000/api npm run dev
+ *
+ * The stand-in only needs to answer GET /skips/by-location?postcode=&area=
+ * with a JSON array of SkipApiData records.
+ */
+
+// Default supplier endpoint used when no override is configured
+const DEFAULT_SKIP_API_BASE_URL = "https://app.wewantwaste.co.uk/api";
+
+// Seconds an upstream response may be reused before refetching
+const UPSTREAM_REVALIDATE_SECONDS = 300;
+
+/**
+ * Error raised when the supplier cannot be reached or answers with
+ * something other than a list of records.
+ */
+export class UpstreamSkipError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = "UpstreamSkipError";
+  }
+}
+
+// Resolve the configured base URL without a trailing slash
+export const getSkipApiBaseUrl = (): string =>
+  (process.env.SKIP_API_BASE_URL || DEFAULT_SKIP_API_BASE_URL).replace(
+    /\/+$/,
+    "",
+  );
+
+/**
+ * Fetch the raw (unvalidated) skip records for a postcode and optional area.
+ *
+ * @param postcode - Outward code or full postcode, e.g. "NR32"
+ * @param area - Optional town/area name used by the supplier to narrow results
+ */
+export const fetchUpstreamSkips = async (
+  postcode: string,
+  area = "",
+): Promise<unknown[]> => {
+  const url = new URL(`${getSkipApiBaseUrl()}/skips/by-location`);
+  url.searchParams.set("postcode", postcode);
+  url.searchParams.set("area", area);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: "application/json" },
+      next: { revalidate: UPSTREAM_REVALIDATE_SECONDS },
+    });
+  } catch (error) {
+    throw new UpstreamSkipError(
+      `Skip supplier unreachable: ${(error as Error).message}`,
+    );
+  }
+
+  if (!response.ok) {
+    throw new UpstreamSkipError(
+      `Skip supplier responded with ${response.status}`,
+      response.status,
+    );
+  }
+
+  const body: unknown = await response.json().catch(() => null);
+  if (!Array.isArray(body)) {
+    throw new UpstreamSkipError("Skip supplier returned an unexpected payload");
+  }
+
+  return body;
+};
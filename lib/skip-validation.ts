@@ -0,0 +1,137 @@
+import type {
+  SkipApiData,
+  SkipValidationIssue,
+  SkipValidationReport,
+} from "@/types";
+import { getCatalogueSizes } from "./display-catalogue";
+
+/**
+ * SkipApiData Runtime Validation
+ *
+ * The supplier feed is untrusted: a single bad row (negative price, VAT sent
+ * as a string, garbled timestamp) used to flow straight into
+ * transformApiDataToSkip and surface as £NaN or a crashed card. Every record
+ * is checked field by field here; records with any issue are quarantined and
+ * reported rather than shown.
+ */
+
+// Skip sizes (yards) the display catalogue knows how to present
+const knownSizes = getCatalogueSizes();
+
+// Field-level check returning an error message, or null when the value is valid
+type FieldRule = (value: unknown) => string | null;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const positiveInteger: FieldRule = (value) =>
+  Number.isInteger(value) && (value as number) > 0
+    ? null
+    : "must be a positive whole number";
+
+const nonNegativeAmount: FieldRule = (value) => {
+  if (!isFiniteNumber(value)) return "must be a number";
+  return value < 0 ? "must not be negative" : null;
+};
+
+const nullableAmount: FieldRule = (value) =>
+  value === null ? null : nonNegativeAmount(value);
+
+const vatRate: FieldRule = (value) => {
+  if (!isFiniteNumber(value)) return "must be a numeric percentage";
+  return value < 0 || value > 100 ? "must be between 0 and 100" : null;
+};
+
+const knownSize: FieldRule = (value) =>
+  knownSizes.includes(value as number)
+    ? null
+    : `must be one of ${knownSizes.join(", ")} yards`;
+
+const nonEmptyString: FieldRule = (value) =>
+  typeof value === "string" && value.trim() !== ""
+    ? null
+    : "must be a non-empty string";
+
+const string: FieldRule = (value) =>
+  typeof value === "string" ? null : "must be a string";
+
+const boolean: FieldRule = (value) =>
+  typeof value === "boolean" ? null : "must be true or false";
+
+const timestamp: FieldRule = (value) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value))
+    ? null
+    : "must be a parseable date";
+
+// Schema: one rule per SkipApiData field
+const skipApiDataSchema: Record<keyof SkipApiData, FieldRule> = {
+  id: positiveInteger,
+  size: knownSize,
+  hire_period_days: positiveInteger,
+  transport_cost: nullableAmount,
+  per_tonne_cost: nullableAmount,
+  price_before_vat: nonNegativeAmount,
+  vat: vatRate,
+  postcode: nonEmptyString,
+  area: string,
+  forbidden: boolean,
+  created_at: timestamp,
+  updated_at: timestamp,
+  allowed_on_road: boolean,
+  allows_heavy_waste: boolean,
+};
+
+/**
+ * Validate a single supplier record.
+ *
+ * @param value - Raw record as parsed from JSON
+ * @param index - Position in the payload, carried into each issue
+ * @returns Every issue found; an empty list means the record is a valid SkipApiData
+ */
+export const validateSkipApiData = (
+  value: unknown,
+  index: number,
+): SkipValidationIssue[] => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [
+      { index, id: null, field: "record", message: "must be an object", value },
+    ];
+  }
+
+  const record = value as Record<string, unknown>;
+  const id = isFiniteNumber(record.id) ? record.id : null;
+
+  return (Object.keys(skipApiDataSchema) as (keyof SkipApiData)[]).flatMap(
+    (field) => {
+      const message = skipApiDataSchema[field](record[field]);
+      return message
+        ? [{ index, id, field, message, value: record[field] }]
+        : [];
+    },
+  );
+};
+
+/**
+ * Validate a full supplier payload, separating usable records from bad ones.
+ */
+export const validateSkipApiPayload = (
+  records: unknown[],
+): SkipValidationReport => {
+  const report: SkipValidationReport = {
+    valid: [],
+    quarantined: [],
+    issues: [],
+  };
+
+  records.forEach((record, index) => {
+    const issues = validateSkipApiData(record, index);
+    if (issues.length === 0) {
+      report.valid.push(record as SkipApiData);
+    } else {
+      report.quarantined.push(record);
+      report.issues.push(...issues);
+    }
+  });
+
+  return report;
+};
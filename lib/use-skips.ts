@@ -0,0 +1,54 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  fetchSkips,
+  SkipApiError,
+  SkipLoadResult,
+  SkipQuery,
+} from "./skip-api";
+
+// Request lifecycle exposed to step components
+export type SkipsState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "not-served"; error: string }
+  | ({ status: "success" } & SkipLoadResult);
+
+/**
+ * useSkips Hook
+ *
+ * Loads skips for the given location and re-fetches whenever the postcode or
+ * area changes. Nothing is fetched (and the state stays loading) until a
+ * postcode is given. In-flight requests are aborted so a slow response for
+ * an old postcode can never overwrite a newer one.
+ *
+ * @returns The current request state and a retry callback for error states
+ */
+export const useSkips = ({ postcode, area = "" }: SkipQuery) => {
+  const [state, setState] = useState<SkipsState>({ status: "loading" });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    setState({ status: "loading" });
+    if (!postcode) return;
+    const controller = new AbortController();
+
+    fetchSkips({ postcode, area }, controller.signal)
+      .then((result) => setState({ status: "success", ...result }))
+      .catch((error: Error) => {
+        if (controller.signal.aborted) return;
+        const notServed = error instanceof SkipApiError && error.notServed;
+        setState({
+          status: notServed ? "not-served" : "error",
+          error: error.message,
+        });
+      });
+
+    return () => controller.abort();
+  }, [postcode, area, attempt]);
+
+  const retry = useCallback(() => setAttempt((count) => count + 1), []);
+
+  return { state, retry };
+};
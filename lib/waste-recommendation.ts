@@ -0,0 +1,134 @@
+import type { WasteType } from "@/data/waste-types";
+import { getMostPopularSkipIndex } from "@/data/skip-data";
+import type { Skip, WasteFit } from "@/types";
+
+/**
+ * Waste-Type Recommendations
+ *
+ * Filters and ranks a postcode's skips for the waste type chosen in step 2:
+ *
+ * - Heavy waste (e.g. construction debris) excludes skips the supplier marks
+ *   as light-waste-only (allows_heavy_waste = false).
+ * - Every remaining skip is scored by how many of the waste type's keywords
+ *   appear in its bestFor list (1 point each) and use cases (weighted by the
+ *   use case percentage).
+ * - The highest scoring bookable skip is recommended; ties go to the smaller,
+ *   cheaper size. With no keyword matches nothing is recommended and the
+ *   caller falls back to the most popular skip.
+ *
+ * Kept skips stay in size order so the tabs read naturally.
+ */
+
+export interface WasteRecommendation {
+  skips: Skip[]; // Skips that suit the waste type, in size order
+  excluded: { skip: Skip; fit: WasteFit }[]; // Hidden skips and why
+  fits: Record<number, WasteFit>; // Fit for every skip, keyed by skip id
+  recommendedIndex: number | null; // Index into skips of the recommended size
+}
+
+// Case-insensitive substring match against any keyword
+const matchesKeyword = (text: string, keywords: string[]): boolean => {
+  const lower = text.toLowerCase();
+  return keywords.some((keyword) => lower.includes(keyword));
+};
+
+// Score a skip and list the bestFor entries that matched
+const scoreSkip = (
+  skip: Skip,
+  wasteType: WasteType,
+): { score: number; matches: string[] } => {
+  const matches = skip.bestFor.filter((item) =>
+    matchesKeyword(item, wasteType.keywords),
+  );
+  const useCaseScore = skip.useCases
+    .filter((useCase) => matchesKeyword(useCase.type, wasteType.keywords))
+    .reduce((sum, useCase) => sum + useCase.percentage / 100, 0);
+
+  return { score: matches.length + useCaseScore, matches };
+};
+
+// "a", "a and b", "a, b and c"
+const joinList = (items: string[]): string =>
+  items.length > 1
+    ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+    : items.join("");
+
+// Explain a kept skip's fit in a sentence
+const describeFit = (
+  skip: Skip,
+  wasteType: WasteType,
+  matches: string[],
+): string => {
+  const suitedTo =
+    matches.length > 0
+      ? `Suited to ${joinList(matches).toLowerCase()}`
+      : `Takes ${wasteType.label.toLowerCase()}, though it isn't a typical choice`;
+  return wasteType.heavy && skip.allows_heavy_waste
+    ? `${suitedTo}. Accepts heavy waste such as rubble and soil.`
+    : `${suitedTo}.`;
+};
+
+/**
+ * Filter and rank skips for a waste type. Without a waste type every skip is
+ * kept and nothing is recommended.
+ */
+export const recommendSkipsForWaste = (
+  skips: Skip[],
+  wasteType?: WasteType,
+): WasteRecommendation => {
+  if (!wasteType) {
+    return { skips, excluded: [], fits: {}, recommendedIndex: null };
+  }
+
+  const fits: Record<number, WasteFit> = {};
+  const kept: Skip[] = [];
+  const excluded: WasteRecommendation["excluded"] = [];
+
+  skips.forEach((skip) => {
+    if (wasteType.heavy && !skip.allows_heavy_waste) {
+      const fit: WasteFit = {
+        status: "excluded",
+        reason: `Can't take heavy waste such as rubble, soil or concrete, so it isn't suitable for ${wasteType.label.toLowerCase()}.`,
+        score: 0,
+      };
+      fits[skip.id] = fit;
+      excluded.push({ skip, fit });
+      return;
+    }
+
+    const { score, matches } = scoreSkip(skip, wasteType);
+    fits[skip.id] = {
+      status: "suitable",
+      reason: describeFit(skip, wasteType, matches),
+      score,
+    };
+    kept.push(skip);
+  });
+
+  // Pick the best bookable match (kept is in size order, so the first of
+  // equal scores is the smaller skip)
+  const recommendedIndex = kept.reduce<number | null>((best, skip, index) => {
+    const { score } = fits[skip.id];
+    if (skip.forbidden || score <= 0) return best;
+    return best === null || score > fits[kept[best].id].score ? index : best;
+  }, null);
+
+  if (recommendedIndex !== null) {
+    const skip = kept[recommendedIndex];
+    fits[skip.id] = {
+      ...fits[skip.id],
+      status: "recommended",
+      reason: `Our pick for ${wasteType.label.toLowerCase()}. ${fits[skip.id].reason}`,
+    };
+  }
+
+  return { skips: kept, excluded, fits, recommendedIndex };
+};
+
+// Skip to show before the customer picks one: the recommended size for the
+// waste type, else the most popular
+export const getDefaultSkipIndex = (
+  recommendation: WasteRecommendation,
+): number =>
+  recommendation.recommendedIndex ??
+  getMostPopularSkipIndex(recommendation.skips);
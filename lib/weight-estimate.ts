@@ -0,0 +1,58 @@
+import type { OverweightEstimate, PriceLine, Skip } from "@/types";
+import { formatPrice, poundsToPence } from "./pricing";
+
+/**
+ * Overweight Estimates
+ *
+ * Skips with a per_tonne_cost (roll-on/roll-off sizes) include a weight
+ * allowance (Skip.includedTonnes); anything above it is charged per tonne.
+ *
+ * Weights are handled in whole kilograms. The charge is the excess in kg
+ * multiplied by the per-tonne rate in pence, divided by 1,000 and rounded
+ * half-up to the nearest penny. It is a VAT-able surcharge.
+ */
+
+// Whether a skip is charged by weight at all
+export const hasWeightCharge = (skip: Pick<Skip, "per_tonne_cost">): boolean =>
+  skip.per_tonne_cost !== null && skip.per_tonne_cost > 0;
+
+/**
+ * Compare an expected load against a skip's allowance.
+ *
+ * @param skip - Skip providing the allowance and per-tonne rate
+ * @param estimatedTonnes - Expected load in tonnes (negative values count as 0)
+ */
+export const estimateOverweight = (
+  skip: Pick<Skip, "includedTonnes" | "per_tonne_cost">,
+  estimatedTonnes: number,
+): OverweightEstimate => {
+  const estimatedKg = Math.max(0, Math.round(estimatedTonnes * 1000));
+  const includedKg = Math.round(skip.includedTonnes * 1000);
+  const excessKg = Math.max(0, estimatedKg - includedKg);
+  const perTonne = poundsToPence(skip.per_tonne_cost ?? 0);
+
+  return {
+    estimatedKg,
+    includedKg,
+    excessKg,
+    perTonne,
+    charge: Math.round((excessKg * perTonne) / 1000),
+  };
+};
+
+// Surcharge line for a price breakdown (empty when within the allowance)
+export const overweightSurcharges = (
+  estimate: OverweightEstimate,
+): PriceLine[] =>
+  estimate.charge > 0
+    ? [
+        {
+          label: `Overweight (${formatTonnes(estimate.excessKg)} @ ${formatPrice(estimate.perTonne)}/t)`,
+          amount: estimate.charge,
+        },
+      ]
+    : [];
+
+// Format kilograms as tonnes for display, e.g. 1500 → "1.5 t"
+export const formatTonnes = (kg: number): string =>
+  `${(kg / 1000).toLocaleString("en-GB", { maximumFractionDigits: 2 })} t`;
@@ -37,8 +37,9 @@ export interface Skip {
   allows_heavy_waste: boolean;
 
   // Computed/derived properties
-  final_price: number;
-  price_with_vat: number;
+  final_price: number; // Total in pounds (pricing.total / 100)
+  price_with_vat: number; // Hire and transport plus VAT in pounds
+  pricing: PriceBreakdown; // Itemised price in pence - render prices from this
 
   // Display properties
   name: string;
@@ -49,14 +50,43 @@ export interface Skip {
   description: string;
   capacity: string;
   dimensions: string;
-  weight: string;
+  weight: string; // Display form of includedTonnes
+  includedTonnes: number; // Weight allowance before per_tonne_cost applies
   deliveryTime: string;
   bestFor: string[];
   restrictions: string[];
+  unavailableReason?: string; // Set for forbidden skips, which can't be booked
   useCases: UseCase[];
   badge?: string;
 }
 
+// A named adjustment within a price breakdown, in pence
+export interface PriceLine {
+  label: string;
+  amount: number;
+}
+
+// Itemised price for a skip hire; every amount is in integer pence
+export interface PriceBreakdown {
+  base: number; // Hire price before VAT
+  surcharges: PriceLine[]; // VAT-able additions (e.g. extra hire days)
+  discounts: PriceLine[]; // VAT-able reductions, stored as positive amounts
+  vatRate: number; // Percentage, e.g. 20
+  vat: number; // VAT on base + surcharges - discounts
+  transport: number; // Transport charge (outside the scope of VAT)
+  permit: number; // Council permit fee (outside the scope of VAT)
+  total: number; // Sum of every part above
+}
+
+// Expected load compared against a skip's weight allowance (weights in kg)
+export interface OverweightEstimate {
+  estimatedKg: number;
+  includedKg: number;
+  excessKg: number;
+  perTonne: number; // Overweight rate in pence per tonne
+  charge: number; // Overweight charge in pence (before VAT)
+}
+
 export interface UseCase {
   type: string;
   percentage: number;
@@ -86,3 +116,192 @@ export interface PremiumButtonProps {
   disabled?: boolean;
   className?: string;
 }
+
+// A single problem found while validating a SkipApiData record
+export interface SkipValidationIssue {
+  index: number; // Position of the record in the supplier payload
+  id: number | null; // Record id, when it could be read
+  field: keyof SkipApiData | "record"; // Offending field ("record" for non-objects)
+  message: string;
+  value: unknown; // The rejected value as received
+}
+
+// Outcome of validating a full supplier payload
+export interface SkipValidationReport {
+  valid: SkipApiData[]; // Records safe to transform into Skips
+  quarantined: unknown[]; // Raw records that failed validation
+  issues: SkipValidationIssue[];
+}
+
+// A confirmed booking as kept in the local bookings store
+export interface BookingRecord {
+  id: string;
+  skipSize: number;
+  outwardCode: string; // Customer district, e.g. "NR32"
+  postcodeArea: string; // Customer postcode area, e.g. "NR"
+  bookedAt: string; // ISO timestamp
+}
+
+// A booking placed through POST /api/bookings, priced on the server
+export interface Booking extends BookingRecord {
+  reference: string; // Customer-facing, e.g. "SKP-4F7K9Q"
+  skipId: number;
+  skipName: string;
+  postcode: string; // Full delivery postcode
+  wasteTypeId: string | null;
+  hireDays: number;
+  placement: SkipPlacement;
+  deliveryDate: string; // ISO date
+  deliverySlot: DeliverySlot;
+  collectionOption: CollectionOption;
+  collectionDate: string; // ISO date
+  customer: CustomerDetails; // Phone normalised
+  price: PriceBreakdown;
+  paymentStatus: BookingPaymentStatus;
+  paymentIntentId: string | null; // The payment under way, or the one that paid
+  paidAt: string | null; // ISO timestamp, the invoice (tax point) date
+  invoiceNumber: string | null; // Sequential, e.g. "INV-000042", once paid
+  revision: number; // Counts changes the customer can see, from 0
+  updatedAt: string; // ISO timestamp of the latest revision
+}
+
+// Whether a booking has been paid for; it's held until payment succeeds
+export type BookingPaymentStatus = "pending" | "paid" | "refunded";
+
+// Card details as typed at payment (never stored)
+export interface CardDetails {
+  number: string;
+  expiry: string; // "MM/YY"
+  cvc: string;
+}
+
+// Where a payment is up to with the provider:
+// - requires_payment_method: waiting for a card (again, after a decline)
+// - requires_action: the card issuer wants the customer to authenticate
+// - succeeded: paid, possibly partly refunded since
+// - refunded: the whole amount has been refunded
+// - canceled: abandoned before it succeeded, so it can no longer be paid
+export type PaymentIntentStatus =
+  | "requires_payment_method"
+  | "requires_action"
+  | "succeeded"
+  | "refunded"
+  | "canceled";
+
+// A payment for one booking, as reported by the payment provider
+export interface PaymentIntent {
+  id: string;
+  reference: string; // Booking reference the payment is for
+  amount: number; // Pence
+  currency: string; // ISO 4217, lower case, e.g. "gbp"
+  status: PaymentIntentStatus;
+  amountRefunded: number; // Pence
+  failureReason: string | null; // Why the last attempt failed, for the customer
+  cardLast4: string | null;
+}
+
+// Payment change reported to the app by the provider's webhook
+export interface PaymentWebhookEvent {
+  type: "payment.succeeded" | "payment.failed" | "payment.refunded";
+  intent: PaymentIntent;
+}
+
+// A customer's request to be called about a skip they can't book online
+export interface CallbackRequest {
+  id: string;
+  name: string;
+  phone: string; // Normalised UK number, e.g. "07700900123"
+  outwardCode: string;
+  skipId: number;
+  skipSize: number;
+  requestedAt: string; // ISO timestamp
+}
+
+// Bookings per skip size for a postcode area over a rolling window
+export interface BookingStats {
+  postcodeArea: string;
+  windowDays: number;
+  total: number;
+  bySize: Record<number, number>;
+}
+
+// How specifically a postcode matched the price catalogue
+export type CatalogueMatchLevel = "district" | "area" | "region";
+
+// Price set resolved for a customer's postcode by GET /api/skips
+export interface SkipCatalogueResponse {
+  outwardCode: string; // Customer's district, e.g. "NR32"
+  match: CatalogueMatchLevel; // Which step of the fallback chain matched
+  pricePostcode: string; // Postcode the price set was published under
+  region: string | null; // Regional name when known, e.g. "East Anglia"
+  bookingStats: BookingStats; // Recent bookings in the customer's area
+  records: unknown[]; // Raw supplier records (validated client-side)
+}
+
+// Components of a validated UK postcode
+export interface ParsedPostcode {
+  postcode: string; // Normalised form, e.g. "NR32 1AB"
+  outward: string; // Outward code / district, e.g. "NR32"
+  inward: string; // Inward code, e.g. "1AB"
+  area: string; // Postcode area letters, e.g. "NR"
+  sector: string; // Outward code plus inward digit, e.g. "NR32 1"
+  kind: "standard" | "giro" | "bfpo"; // Special-case formats are flagged
+}
+
+// Result of parsing user input as a postcode
+export type PostcodeParseResult =
+  | { valid: true; postcode: ParsedPostcode }
+  | { valid: false; error: string };
+
+// Where the skip will stand; road placement needs a council permit
+export type SkipPlacement = "private" | "road";
+
+// Half-day delivery window
+export type DeliverySlot = "am" | "pm";
+
+// How the skip is collected: at the end of the hire, early on a requested
+// date, or straight away while the driver waits ("wait and load")
+export type CollectionOption = "standard" | "early" | "wait-and-load";
+
+// A dated step in the hire, shown on the review and confirmation screens
+export interface TimelineEvent {
+  kind: "delivery" | "hire" | "collection" | "permit";
+  label: string;
+  start: string; // ISO date
+  end?: string; // ISO date, for spans such as the hire or permit window
+  detail?: string;
+}
+
+// How well a skip suits the customer's waste type
+export type WasteFitStatus = "recommended" | "suitable" | "excluded";
+
+export interface WasteFit {
+  status: WasteFitStatus;
+  reason: string; // Customer-facing explanation
+  score: number; // Keyword match strength; higher is a better fit
+}
+
+// Contact details and the delivery site's address, collected at payment
+// (the site's postcode is the one chosen at the start)
+export interface CustomerDetails {
+  name: string;
+  email: string;
+  phone: string;
+  addressLine1: string;
+  addressLine2: string; // Optional, "" when not given
+  town: string;
+}
+
+// Everything chosen so far in the booking flow, shared by every step
+export interface BookingDraft {
+  postcode: string; // As typed; normalised once valid
+  wasteTypeId: string | null;
+  skipId: number | null; // null until picked (the recommended size is used)
+  hireDays: number;
+  placement: SkipPlacement | null;
+  deliveryDate: string; // ISO date, "" until chosen
+  deliverySlot: DeliverySlot | null;
+  collectionOption: CollectionOption;
+  earlyCollectionDate: string; // ISO date for an early collection
+  customer: CustomerDetails;
+}